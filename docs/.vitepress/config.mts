@@ -60,6 +60,7 @@ const MANUAL = {
     { text: "Sinks", link: "/manual/sinks" },
     { text: "Filters", link: "/manual/filters" },
     { text: "Text formatters", link: "/manual/formatters" },
+    { text: "Redaction", link: "/manual/redaction" },
     { text: "Using in libraries", link: "/manual/library" },
     { text: "Testing", link: "/manual/testing" },
   ],
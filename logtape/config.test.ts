@@ -1,3 +1,4 @@
+import { assert } from "@std/assert/assert";
 import { assertEquals } from "@std/assert/assert-equals";
 import { assertRejects } from "@std/assert/assert-rejects";
 import { assertStrictEquals } from "@std/assert/assert-strict-equals";
@@ -6,13 +7,20 @@ import {
   ConfigError,
   configure,
   getConfig,
+  reconfigure,
   reset,
 } from "./config.ts";
 import { type Filter, type FilterLike, toFilter } from "./filter.ts";
 import { LoggerImpl } from "./logger/index.ts";
 import type { PropertiesTransformer } from "./propertiesTransformer.ts";
 import type { LogRecord } from "./record.ts";
-import type { Sink } from "./sink.ts";
+import {
+  getFanoutSink,
+  type Sink,
+  withDeduplication,
+  withFilter,
+  withFingersCrossed,
+} from "./sink.ts";
 
 Deno.test("configure()", async (t) => {
   let disposed = 0;
@@ -103,7 +111,7 @@ Deno.test("configure()", async (t) => {
     };
     await configure(config);
     const getFiltersExpectedString = (filters: Filter[]) =>
-      [...filters, toFilter("debug")].toString();
+      [() => true, ...filters].toString();
 
     const logger = LoggerImpl.getLogger("my-app");
     assertEquals(logger.sinks, [a]);
@@ -203,7 +211,7 @@ Deno.test("configure()", async (t) => {
       {
         level: "info",
         category: ["my-app", "tr", "tr2"],
-        message: ["{tr}"],
+        message: ["", true, ""],
         rawMessage: "{tr}",
         properties: { tr: true },
         timestamp: eLogs[0].timestamp,
@@ -323,3 +331,296 @@ Deno.test("configure()", async (t) => {
     });
   }
 });
+
+Deno.test("configure() [env]", async (t) => {
+  const buffer: LogRecord[] = [];
+  const metaBuffer: LogRecord[] = [];
+  const props = (record: LogRecord) =>
+    (record.properties ?? {}) as Record<string, unknown>;
+
+  await t.step("test", async () => {
+    const env: Record<string, string> = {
+      LOGTAPE_LEVEL: "warning",
+      LOGTAPE_LEVELS: "my-app.db=debug, other=ERROR,invalid,my-app.x=loud",
+    };
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+        metaBuffer: metaBuffer.push.bind(metaBuffer),
+      },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"], level: "info" },
+        { category: ["my-app", "db"], level: "error" },
+        { category: ["logtape", "meta"], sinks: ["metaBuffer"] },
+      ],
+      env: { getEnv: (name) => env[name] },
+    });
+    LoggerImpl.getLogger("my-app").info("ignored");
+    LoggerImpl.getLogger("my-app").warn("my-app");
+    LoggerImpl.getLogger(["my-app", "db"]).debug("my-app.db");
+    LoggerImpl.getLogger(["my-app", "db"]).trace("ignored");
+    assertEquals(buffer.map((r) => r.message), [["my-app"], ["my-app.db"]]);
+    assertEquals(
+      LoggerImpl.getLogger("other").filters.toString(),
+      toFilter("error").toString(),
+    );
+    assertEquals(
+      metaBuffer.filter((r) => r.level === "warning").map((r) => [
+        props(r).variable,
+        props(r).value,
+      ]),
+      [["LOGTAPE_LEVELS", "invalid"], ["LOGTAPE_LEVELS", "my-app.x=loud"]],
+    );
+    assertEquals(
+      metaBuffer.filter((r) => props(r).level != null).map((r) => [
+        props(r).variable,
+        props(r).category,
+        props(r).level,
+      ]),
+      [
+        ["LOGTAPE_LEVEL", ["my-app"], "warning"],
+        ["LOGTAPE_LEVELS", ["my-app", "db"], "debug"],
+        ["LOGTAPE_LEVELS", ["other"], "error"],
+      ],
+    );
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+
+  await t.step("opt-in", async () => {
+    buffer.splice(0);
+    await configure({
+      sinks: { buffer: buffer.push.bind(buffer) },
+      loggers: [{ category: "my-app", sinks: ["buffer"], level: "info" }],
+    });
+    LoggerImpl.getLogger("my-app").debug("ignored");
+    assertEquals(buffer, []);
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+Deno.test("configure() [async sink]", async (t) => {
+  const delivered: LogRecord[] = [];
+  const metaBuffer: LogRecord[] = [];
+  let disposed = false;
+  const slowSink = async (record: LogRecord) => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    if (record.level === "error") throw new Error("Delivery failed.");
+    delivered.push(record);
+  };
+  Object.assign(slowSink, { [Symbol.dispose]: () => disposed = true });
+
+  await t.step("test", async () => {
+    await configure({
+      sinks: { slow: slowSink, meta: metaBuffer.push.bind(metaBuffer) },
+      loggers: [
+        { category: "my-app", sinks: ["slow"], level: "info" },
+        { category: ["logtape", "meta"], sinks: ["meta"], level: "warning" },
+      ],
+    });
+    const logger = LoggerImpl.getLogger("my-app");
+    logger.info("first");
+    logger.error("second");
+    logger.info("third");
+    assertEquals(delivered, []);
+    await reset();
+    assertEquals(delivered.map((r) => r.message), [["first"], ["third"]]);
+    assertEquals(metaBuffer.length, 1);
+    assertEquals(metaBuffer[0].level, "fatal");
+    assertEquals(
+      (metaBuffer[0].properties as { record: LogRecord }).record.message,
+      ["second"],
+    );
+    assert(disposed);
+  });
+
+  await t.step("promise-returning function", async () => {
+    const delivered: LogRecord[] = [];
+    // Not an async function, e.g., transpiled code:
+    const sink = (record: LogRecord) =>
+      new Promise<void>((resolve) =>
+        setTimeout(() => {
+          delivered.push(record);
+          resolve();
+        }, 10)
+      );
+    await configure({
+      sinks: { sink },
+      loggers: [
+        { category: "my-app", sinks: ["sink"], level: "info" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+      reset: true,
+    });
+    LoggerImpl.getLogger("my-app").info("hello");
+    assertEquals(delivered, []);
+    await reset();
+    assertEquals(delivered.map((r) => r.message), [["hello"]]);
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+Deno.test("configure() [shared sink]", async (t) => {
+  const logs: LogRecord[] = [];
+  let disposed = 0;
+  // Like a file sink, it fails when it is closed twice:
+  const file: Sink & Disposable = (record) => logs.push(record);
+  file[Symbol.dispose] = () => {
+    if (++disposed > 1) throw new Error("Bad resource ID");
+  };
+
+  await t.step("reset()", async () => {
+    await configure({
+      sinks: {
+        file,
+        errors: withFilter(file, "error"),
+        dedup: withDeduplication(file),
+        crossed: withFingersCrossed(file),
+        fanout: getFanoutSink([file, withFilter(file, "fatal")]),
+      },
+      loggers: [
+        {
+          category: "my-app",
+          sinks: ["file", "errors", "dedup", "crossed", "fanout"],
+        },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    await reset();
+    assertEquals(disposed, 1);
+  });
+
+  await t.step("reconfigure()", async () => {
+    disposed = 0;
+    await configure({
+      sinks: { file, errors: withFilter(file, "error") },
+      loggers: [
+        { category: "my-app", sinks: ["file", "errors"] },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    await reconfigure({
+      sinks: { file },
+      loggers: [
+        { category: "my-app", sinks: ["file"] },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    // The removed sink does not close the sink still in use:
+    assertEquals(disposed, 0);
+    await reset();
+    assertEquals(disposed, 1);
+  });
+});
+
+Deno.test("reconfigure()", async (t) => {
+  await t.step("not configured", async () => {
+    await assertRejects(
+      () => reconfigure({ loggers: [] }),
+      ConfigError,
+      "Not configured yet",
+    );
+  });
+
+  const aLogs: LogRecord[] = [];
+  let aDisposed = 0;
+  const a: Sink & AsyncDisposable = (record) => aLogs.push(record);
+  a[Symbol.asyncDispose] = () => {
+    ++aDisposed;
+    return Promise.resolve();
+  };
+  const bLogs: LogRecord[] = [];
+  let bDisposed = 0;
+  const b: Sink & Disposable = (record) => bLogs.push(record);
+  b[Symbol.dispose] = () => ++bDisposed;
+  const x: Filter = (record) => record.message[0] !== "x";
+
+  await t.step("set up", async () => {
+    await configure({
+      sinks: { a, b },
+      filters: { x },
+      loggers: [
+        { category: "my-app", sinks: ["a"], level: "info" },
+        { category: ["my-app", "db"], sinks: ["b"], filters: ["x"] },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+  });
+
+  await t.step("test", async () => {
+    const logger = LoggerImpl.getLogger("my-app");
+    const db = LoggerImpl.getLogger(["my-app", "db"]);
+    logger.debug("ignored");
+    db.trace("x");
+    assertEquals(aLogs.length, 0);
+    assertEquals(bLogs.length, 0);
+
+    const diff = await reconfigure({
+      loggers: [
+        { category: "my-app", sinks: ["a"], level: "debug" },
+        { category: ["my-app", "db"], level: "info" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    assertEquals(diff, {
+      addedSinks: [],
+      removedSinks: [],
+      changedLevels: [
+        { category: ["my-app"], before: "info", after: "debug" },
+        { category: ["my-app", "db"], before: undefined, after: "info" },
+      ],
+      changedFilters: [
+        { category: ["my-app", "db"], before: ["x"], after: [] },
+      ],
+    });
+    assertEquals(aDisposed, 0);
+    assertEquals(bDisposed, 0);
+    logger.debug("logged");
+    db.debug("ignored");
+    db.info("x");
+    assertEquals(aLogs.map((r) => r.message), [["logged"], ["x"]]);
+    assertEquals(bLogs, []);
+    assertEquals(getConfig()?.filters, { x });
+
+    const diff2 = await reconfigure({
+      sinks: { a },
+      loggers: [
+        { category: "my-app", sinks: ["a"], level: "warning" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    assertEquals(diff2.addedSinks, []);
+    assertEquals(diff2.removedSinks, ["b"]);
+    assertEquals(aDisposed, 0);
+    assertEquals(bDisposed, 1);
+    assertEquals(db.filters, []);
+
+    await assertRejects(
+      () =>
+        reconfigure({
+          loggers: [{ category: "my-app", sinks: ["b"] }],
+        }),
+      ConfigError,
+      "Sink not found: b",
+    );
+    assertEquals(logger.sinks, [a]);
+    assertEquals(
+      logger.filters.toString(),
+      toFilter("warning").toString(),
+    );
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+    assertEquals(aDisposed, 1);
+    assertEquals(bDisposed, 1);
+  });
+});
@@ -1,10 +1,18 @@
-import type { Category } from "./category.ts";
+import { type Category, getCategoryList } from "./category.ts";
 import { metaLoggerCategory } from "./constants.ts";
-import { type FilterLike, toFilter } from "./filter.ts";
-import type { LogLevel } from "./level.ts";
+import type { ContextLocalStorage } from "./context.ts";
+import { type Filter, type FilterLike, toFilter } from "./filter.ts";
+import { isLogLevel, type LogLevel } from "./level.ts";
 import { LoggerImpl } from "./logger/index.ts";
 import type { PropertiesTransformer } from "./propertiesTransformer.ts";
-import { getConsoleSink, type Sink } from "./sink.ts";
+import {
+  type AsyncSink,
+  fromAsyncSink,
+  getConsoleSink,
+  type Sink,
+} from "./sink.ts";
+import type { TraceContextOptions } from "./trace.ts";
+import { getEnvironmentVariable, teardown } from "./utils.ts";
 
 /**
  * A configuration for the loggers.
@@ -17,9 +25,11 @@ export interface Config<
 > {
   /**
    * The sinks to use.  The keys are the sink identifiers, and the values are
-   * {@link Sink}s.
+   * {@link Sink}s or {@link AsyncSink}s.  An `async` function is regarded as
+   * an {@link AsyncSink}, and turned into a non-blocking sink by
+   * {@link fromAsyncSink}.
    */
-  sinks: Record<TSinkId, Sink>;
+  sinks: Record<TSinkId, Sink | AsyncSink>;
 
   propTransformers?: Record<TTransformerId, PropertiesTransformer<P>>;
 
@@ -34,12 +44,72 @@ export interface Config<
    */
   loggers: LoggerConfig<TSinkId, TFilterId, TTransformerId>[];
 
+  /**
+   * The context-local storage to use for implicit contexts, e.g.,
+   * an `AsyncLocalStorage` instance from `node:async_hooks`.  It is required
+   * to use the `withContext()` function.
+   * @since 0.11.0
+   */
+  contextLocalStorage?: ContextLocalStorage<Record<string, unknown>>;
+
+  /**
+   * Whether to let environment variables override the log levels of
+   * the loggers.  If `true`, the following environment variables are read
+   * (see also {@link EnvConfig}):
+   *
+   * - `LOGTAPE_LEVEL`: The log level for all the configured loggers except for
+   *   the meta logger, e.g., `LOGTAPE_LEVEL=info`.
+   * - `LOGTAPE_LEVELS`: Comma-separated pairs of a category, whose parts are
+   *   separated by dots, and its log level, e.g.,
+   *   `LOGTAPE_LEVELS="app.db=debug,app.http=warning"`.  Loggers that are
+   *   not configured are added.  These take precedence over `LOGTAPE_LEVEL`.
+   *
+   * The effective overrides are logged to the meta logger.  Environment
+   * variables are silently ignored where they are not accessible, e.g.,
+   * in browsers or in Deno without the `--allow-env` flag.
+   *
+   * Turned off by default.
+   * @since 0.11.0
+   */
+  env?: boolean | EnvConfig;
+
+  /**
+   * The options for enriching log records with the trace context of
+   * the current span, e.g., to get it from OpenTelemetry.  Regardless of
+   * this option, the trace context set by `withTraceparent()` is attached to
+   * log records as the `trace_id`, `span_id`, and `trace_flags` properties.
+   * @since 0.11.0
+   */
+  traceContext?: TraceContextOptions;
+
   /**
    * Whether to reset the configuration before applying this one.
    */
   reset?: boolean;
 }
 
+/**
+ * The options for overriding the log levels by environment variables.
+ * See also {@link Config.env}.
+ * @since 0.11.0
+ */
+export interface EnvConfig {
+  /**
+   * The prefix of the environment variable names.  `"LOGTAPE_"` by default,
+   * which means `LOGTAPE_LEVEL` and `LOGTAPE_LEVELS` are read.
+   */
+  prefix?: string;
+
+  /**
+   * The function to read an environment variable.  By default, it reads
+   * the environment variables of the process in Deno, Node.js, and Bun.
+   * @param name The name of the environment variable.
+   * @returns The value of the environment variable, or `undefined` if it is
+   *          not set.
+   */
+  getEnv?: (name: string) => string | undefined;
+}
+
 /**
  * A logger configuration.
  */
@@ -82,7 +152,7 @@ export interface LoggerConfig<
 
   /**
    * The log level to filter by.  If `null`, the logger will reject all
-   * records.
+   * records.  If omitted, the logger will accept records of all levels.
    */
   level?: LogLevel | null;
 }
@@ -161,11 +231,219 @@ export async function configure<
     );
   }
   await reset();
+  const plan = planConfig(config);
   currentConfig = config;
+  currentPlan = plan;
+  LoggerImpl.getLogger().contextLocalStorage = config.contextLocalStorage;
+  LoggerImpl.getLogger().getSpanContext = config.traceContext?.getSpanContext;
+  applyPlan(plan);
+
+  for (const disposable of getDisposables(config)) {
+    if (Symbol.asyncDispose in disposable) {
+      asyncDisposables.add(disposable as AsyncDisposable);
+    }
+    if (Symbol.dispose in disposable) disposables.add(disposable as Disposable);
+  }
+
+  try {
+    // @ts-ignore: It's fine to use process in Node
+    // deno-lint-ignore no-node-globals
+    process.on("exit", dispose);
+  } catch (_e) {
+    try {
+      addEventListener("unload", dispose);
+    } catch (_e) {
+      /* noop */
+    }
+  }
+
+  const meta = LoggerImpl.getLogger(metaLoggerCategory);
+  logEnvOverrides(plan);
+  meta
+    .info`LogTape loggers are configured.  Note that LogTape itself uses the meta logger, which has category ${metaLoggerCategory}.  The meta logger purposes to log internal errors such as sink exceptions.  If you are seeing this message, the meta logger is somehow configured.  It's recommended to configure the meta logger with a separate sink so that you can easily notice if logging itself fails or is misconfigured.  To turn off this message, configure the meta logger with higher log levels than ${"info"}.`;
+}
+
+/**
+ * A partial configuration for {@link reconfigure}.  Each given key replaces
+ * the corresponding key of the current configuration as a whole, and omitted
+ * keys are kept as they are.
+ * @since 0.11.0
+ */
+export type PartialConfig<
+  TSinkId extends string,
+  TFilterId extends string,
+  TTransformerId extends string,
+  P,
+> = Partial<Omit<Config<TSinkId, TFilterId, TTransformerId, P>, "reset">>;
+
+/**
+ * The differences between the previous and the new configurations, which is
+ * returned by {@link reconfigure}.
+ * @since 0.11.0
+ */
+export interface ConfigDiff {
+  /**
+   * The identifiers of the sinks that are added or replaced.
+   */
+  readonly addedSinks: readonly string[];
+
+  /**
+   * The identifiers of the sinks that are removed or replaced.
+   */
+  readonly removedSinks: readonly string[];
+
+  /**
+   * The categories whose log levels are changed.  The log level is `undefined`
+   * if the category is not configured or its log level is omitted.
+   */
+  readonly changedLevels: readonly {
+    readonly category: readonly string[];
+    readonly before: LogLevel | null | undefined;
+    readonly after: LogLevel | null | undefined;
+  }[];
+
+  /**
+   * The categories whose filters are changed, including the ones whose filter
+   * identifiers are the same but refer to different filters.
+   */
+  readonly changedFilters: readonly {
+    readonly category: readonly string[];
+    readonly before: readonly string[];
+    readonly after: readonly string[];
+  }[];
+}
+
+/**
+ * Reconfigures the loggers at runtime without resetting them.  Unlike
+ * {@link configure} with the `reset` flag, this does not drop any log records
+ * nor reopen any sinks: the new configuration is validated first, then
+ * swapped in at once, and only the sinks, filters, and properties transformers
+ * that are no longer referenced are disposed afterwards.
+ *
+ * @example
+ * ```typescript
+ * // Turn on the debug logs of the database layer:
+ * await reconfigure({
+ *   loggers: [
+ *     { category: "my-app", sinks: ["console"], level: "info" },
+ *     { category: ["my-app", "db"], level: "debug" },
+ *   ],
+ * });
+ * ```
+ *
+ * @param config The partial configuration.  Each given key replaces
+ *               the corresponding key of the current configuration.
+ * @returns The differences between the previous and the new configurations.
+ * @throws {ConfigError} If the loggers are not configured yet, or the new
+ *                       configuration is invalid.  In the latter case,
+ *                       the current configuration is kept as it is.
+ * @since 0.11.0
+ */
+export async function reconfigure<
+  TSinkId extends string,
+  TFilterId extends string,
+  TTransformerId extends string,
+  P,
+>(
+  config: PartialConfig<TSinkId, TFilterId, TTransformerId, P>,
+): Promise<ConfigDiff> {
+  if (currentConfig == null || currentPlan == null) {
+    throw new ConfigError(
+      "Not configured yet; call configure() before reconfigure().",
+    );
+  }
+  const prevConfig = currentConfig;
+  const prevPlan = currentPlan;
+  // deno-lint-ignore no-explicit-any
+  const nextConfig: Config<string, string, string, any> = {
+    ...prevConfig,
+    ...config,
+  };
+  const nextPlan = planConfig(nextConfig);
+  const diff = diffConfigs(prevConfig, prevPlan, nextConfig, nextPlan);
 
+  currentConfig = nextConfig;
+  currentPlan = nextPlan;
+  LoggerImpl.getLogger().contextLocalStorage = nextConfig.contextLocalStorage;
+  LoggerImpl.getLogger().getSpanContext = nextConfig.traceContext
+    ?.getSpanContext;
+  applyPlan(nextPlan);
+
+  const nextDisposables = getDisposables(nextConfig);
+  for (const disposable of nextDisposables) {
+    if (Symbol.asyncDispose in disposable) {
+      asyncDisposables.add(disposable as AsyncDisposable);
+    }
+    if (Symbol.dispose in disposable) disposables.add(disposable as Disposable);
+  }
+
+  logEnvOverrides(nextPlan);
+  LoggerImpl.getLogger(metaLoggerCategory).info(
+    "LogTape loggers are reconfigured.",
+    { ...diff },
+  );
+
+  const removed: object[] = [];
+  for (const disposable of getDisposables(prevConfig)) {
+    if (nextDisposables.has(disposable)) continue;
+    const sync = disposables.delete(disposable as Disposable);
+    if (asyncDisposables.delete(disposable as AsyncDisposable) || sync) {
+      removed.push(disposable);
+    }
+  }
+  // The sinks still in use may be wrapped by removed sinks, e.g., by
+  // withFilter(), so they are kept from being disposed:
+  await teardown(removed, nextDisposables);
+  return diff;
+}
+
+/**
+ * The sinks, filters, and properties transformers of a logger to be applied.
+ */
+interface LoggerState {
+  sinks: Sink[];
+  parentSinks: "inherit" | "override";
+  filters: Filter[];
+  propTransformers: PropertiesTransformer<unknown>[];
+}
+
+/**
+ * A validated configuration that is ready to be applied to the loggers.
+ */
+interface ConfigPlan {
+  /**
+   * The effective logger configurations, i.e., with environment variable
+   * overrides applied.
+   */
+  loggerConfigs: LoggerConfig<string, string, string>[];
+  states: Map<LoggerImpl<unknown>, LoggerState>;
+  envOverrides: EnvOverrides<string, string, string> | null;
+}
+
+/**
+ * The current configuration plan, if any.  Otherwise, `null`.
+ */
+let currentPlan: ConfigPlan | null = null;
+
+/**
+ * Validates the configuration and turns it into a plan without touching
+ * the loggers.
+ * @param config The configuration.
+ * @returns The plan.
+ * @throws {ConfigError} If the configuration refers to undefined sinks,
+ *                       filters, or properties transformers.
+ */
+function planConfig<P>(
+  config: Config<string, string, string, P>,
+): ConfigPlan {
+  const envOverrides = config.env
+    ? getEnvOverrides(config.loggers, config.env === true ? {} : config.env)
+    : null;
+  const loggerConfigs = envOverrides?.loggers ?? config.loggers;
+  const states = new Map<LoggerImpl<unknown>, LoggerState>();
   let metaConfigured = false;
 
-  for (const cfg of config.loggers) {
+  for (const cfg of loggerConfigs) {
     if (
       cfg.category.length === 0 ||
       (cfg.category.length === 1 && cfg.category[0] === "logtape") ||
@@ -176,88 +454,304 @@ export async function configure<
       metaConfigured = true;
     }
     const logger = LoggerImpl.getLogger(cfg.category);
+    let state = states.get(logger);
+    if (state == null) {
+      state = {
+        sinks: [],
+        parentSinks: "inherit",
+        filters: [],
+        propTransformers: [],
+      };
+      states.set(logger, state);
+    }
     for (const sinkId of cfg.sinks ?? []) {
       const sink = config.sinks[sinkId];
-      if (!sink) {
-        await reset();
-        throw new ConfigError(`Sink not found: ${sinkId}.`);
-      }
-      logger.sinks.push(sink);
+      if (!sink) throw new ConfigError(`Sink not found: ${sinkId}.`);
+      state.sinks.push(resolveSink(sink));
     }
-    logger.parentSinks = cfg.parentSinks ?? "inherit";
-    logger.filters.push(
-      toFilter(cfg.level === undefined ? "debug" : cfg.level),
+    state.parentSinks = cfg.parentSinks ?? "inherit";
+    // Without a level, records of all levels are accepted, including custom
+    // levels less severe than "trace":
+    state.filters.push(
+      cfg.level === undefined ? () => true : toFilter(cfg.level),
     );
     for (const filterId of cfg.filters ?? []) {
       const filter = config.filters?.[filterId];
       if (filter === undefined) {
-        await reset();
         throw new ConfigError(`Filter not found: ${filterId}.`);
       }
-      logger.filters.push(toFilter(filter));
+      state.filters.push(toFilter(filter));
     }
-    logger.propTransformers.push((record) => record.properties);
+    state.propTransformers.push((record) => record.properties);
     for (const propTransformerId of cfg.propTransformers ?? []) {
       const propTransformer = config.propTransformers?.[propTransformerId];
       if (propTransformer === undefined) {
-        await reset();
         throw new ConfigError(`Transformer not found: ${propTransformerId}.`);
       }
-      logger.propTransformers.push(
+      state.propTransformers.push(
         propTransformer as PropertiesTransformer<unknown>,
       );
     }
+  }
+
+  if (!metaConfigured) {
+    states.set(LoggerImpl.getLogger(metaLoggerCategory), {
+      sinks: [getConsoleSink()],
+      parentSinks: "inherit",
+      filters: [],
+      propTransformers: [],
+    });
+  }
+
+  return { loggerConfigs, states, envOverrides };
+}
+
+/**
+ * Applies the plan to the loggers at once.  The loggers that were configured
+ * but are not in the plan are reset.
+ * @param plan The plan to apply.
+ */
+function applyPlan(plan: ConfigPlan): void {
+  for (const logger of strongRefs) {
+    if (!plan.states.has(logger)) logger.reset();
+  }
+  strongRefs.clear();
+  for (const [logger, state] of plan.states) {
+    logger.sinks.splice(0, logger.sinks.length, ...state.sinks);
+    logger.parentSinks = state.parentSinks;
+    logger.filters.splice(0, logger.filters.length, ...state.filters);
+    logger.propTransformers.splice(
+      0,
+      logger.propTransformers.length,
+      ...state.propTransformers,
+    );
     strongRefs.add(logger);
   }
+}
 
-  for (const sink of Object.values<Sink>(config.sinks)) {
-    if (Symbol.asyncDispose in sink) {
-      asyncDisposables.add(sink as AsyncDisposable);
+/**
+ * Gets the disposable sinks, filters, and properties transformers of
+ * the configuration.
+ * @param config The configuration.
+ * @returns The disposable objects.
+ */
+function getDisposables<P>(
+  config: Config<string, string, string, P>,
+): Set<object> {
+  const result = new Set<object>();
+  const objects: unknown[] = [
+    ...Object.values<Sink | AsyncSink>(config.sinks).map(resolveSink),
+    ...Object.values(config.filters ?? {}),
+    ...Object.values(config.propTransformers ?? {}),
+  ];
+  for (const object of objects) {
+    if (object == null || typeof object !== "function") continue;
+    if (Symbol.asyncDispose in object || Symbol.dispose in object) {
+      result.add(object);
     }
-    if (Symbol.dispose in sink) disposables.add(sink as Disposable);
   }
+  return result;
+}
 
-  for (const filter of Object.values<FilterLike>(config.filters ?? {})) {
-    if (filter == null || typeof filter === "string") continue;
-    if (Symbol.asyncDispose in filter) {
-      asyncDisposables.add(filter as AsyncDisposable);
-    }
-    if (Symbol.dispose in filter) disposables.add(filter as Disposable);
+/**
+ * The constructor of `async` functions.
+ */
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+/**
+ * The sinks that {@link resolveSink} has made from async sinks.  They are
+ * reused so that reconfiguration keeps the same queues for the same sinks.
+ */
+let asyncSinkWrappers = new WeakMap<AsyncSink, Sink & AsyncDisposable>();
+
+/**
+ * Turns an async sink into a sink by {@link fromAsyncSink}, or returns
+ * the given sink as it is if it is not an `async` function.
+ * @param sink The sink.
+ * @returns The sink to be attached to loggers.
+ */
+function resolveSink(sink: Sink | AsyncSink): Sink {
+  if (!(sink instanceof AsyncFunction)) return sink;
+  const asyncSink = sink as AsyncSink;
+  let wrapper = asyncSinkWrappers.get(asyncSink);
+  if (wrapper == null) {
+    wrapper = fromAsyncSink(asyncSink);
+    asyncSinkWrappers.set(asyncSink, wrapper);
   }
+  return wrapper;
+}
 
-  for (
-    const propTransformer of Object.values<PropertiesTransformer<P>>(
-      config.propTransformers ?? {},
-    )
-  ) {
-    if (!propTransformer) continue;
-    if (Symbol.asyncDispose in propTransformer) {
-      asyncDisposables.add(propTransformer as AsyncDisposable);
+/**
+ * Computes the differences between two configurations.
+ */
+function diffConfigs<P>(
+  prevConfig: Config<string, string, string, P>,
+  prevPlan: ConfigPlan,
+  nextConfig: Config<string, string, string, P>,
+  nextPlan: ConfigPlan,
+): ConfigDiff {
+  const addedSinks = Object.keys(nextConfig.sinks).filter((id) =>
+    prevConfig.sinks[id] !== nextConfig.sinks[id]
+  );
+  const removedSinks = Object.keys(prevConfig.sinks).filter((id) =>
+    prevConfig.sinks[id] !== nextConfig.sinks[id]
+  );
+  const summarize = (plan: ConfigPlan) => {
+    const result = new Map<
+      string,
+      {
+        category: readonly string[];
+        level: LogLevel | null | undefined;
+        filters: string[];
+      }
+    >();
+    for (const cfg of plan.loggerConfigs) {
+      const category = getCategoryList(cfg.category);
+      const key = JSON.stringify(category);
+      const entry = result.get(key) ??
+        { category, level: undefined, filters: [] };
+      if (cfg.level !== undefined) entry.level = cfg.level;
+      entry.filters.push(...cfg.filters ?? []);
+      result.set(key, entry);
     }
-    if (Symbol.dispose in propTransformer) {
-      disposables.add(propTransformer as Disposable);
+    return result;
+  };
+  const prev = summarize(prevPlan);
+  const next = summarize(nextPlan);
+  const changedLevels: ConfigDiff["changedLevels"][number][] = [];
+  const changedFilters: ConfigDiff["changedFilters"][number][] = [];
+  for (const key of new Set([...prev.keys(), ...next.keys()])) {
+    const before = prev.get(key);
+    const after = next.get(key);
+    const category = (after ?? before)!.category;
+    if (before?.level !== after?.level) {
+      changedLevels.push({
+        category,
+        before: before?.level,
+        after: after?.level,
+      });
     }
-  }
-
-  try {
-    // @ts-ignore: It's fine to use process in Node
-    // deno-lint-ignore no-node-globals
-    process.on("exit", dispose);
-  } catch (_e) {
-    try {
-      addEventListener("unload", dispose);
-    } catch (_e) {
-      /* noop */
+    const beforeFilters = before?.filters ?? [];
+    const afterFilters = after?.filters ?? [];
+    if (
+      beforeFilters.length !== afterFilters.length ||
+      beforeFilters.some((id, i) =>
+        id !== afterFilters[i] ||
+        prevConfig.filters?.[id] !== nextConfig.filters?.[id]
+      )
+    ) {
+      changedFilters.push({
+        category,
+        before: beforeFilters,
+        after: afterFilters,
+      });
     }
   }
+  return { addedSinks, removedSinks, changedLevels, changedFilters };
+}
 
+/**
+ * Logs the environment variable overrides of the plan, if any, to the meta
+ * logger.
+ * @param plan The plan.
+ */
+function logEnvOverrides(plan: ConfigPlan): void {
+  if (plan.envOverrides == null) return;
   const meta = LoggerImpl.getLogger(metaLoggerCategory);
-  if (!metaConfigured) {
-    meta.sinks.push(getConsoleSink());
+  for (const { variable, value, error } of plan.envOverrides.errors) {
+    meta.warn(
+      "Ignored the invalid environment variable {variable}: {error}",
+      { variable, value, error },
+    );
   }
+  for (const { variable, category, level } of plan.envOverrides.overrides) {
+    meta.info(
+      "Overrode the log level of the category {category} to {level} by " +
+        "the environment variable {variable}.",
+      { variable, category, level },
+    );
+  }
+}
 
-  meta
-    .info`LogTape loggers are configured.  Note that LogTape itself uses the meta logger, which has category ${metaLoggerCategory}.  The meta logger purposes to log internal errors such as sink exceptions.  If you are seeing this message, the meta logger is somehow configured.  It's recommended to configure the meta logger with a separate sink so that you can easily notice if logging itself fails or is misconfigured.  To turn off this message, configure the meta logger with higher log levels than ${"info"}.`;
+interface EnvOverrides<
+  TSinkId extends string,
+  TFilterId extends string,
+  TTransformerId extends string,
+> {
+  loggers: LoggerConfig<TSinkId, TFilterId, TTransformerId>[];
+  overrides: {
+    variable: string;
+    category: readonly string[];
+    level: LogLevel;
+  }[];
+  errors: { variable: string; value: string; error: string }[];
+}
+
+function getEnvOverrides<
+  TSinkId extends string,
+  TFilterId extends string,
+  TTransformerId extends string,
+>(
+  loggers: LoggerConfig<TSinkId, TFilterId, TTransformerId>[],
+  { prefix = "LOGTAPE_", getEnv = getEnvironmentVariable }: EnvConfig,
+): EnvOverrides<TSinkId, TFilterId, TTransformerId> {
+  const result: EnvOverrides<TSinkId, TFilterId, TTransformerId> = {
+    loggers: loggers.map((cfg) => ({ ...cfg })),
+    overrides: [],
+    errors: [],
+  };
+  const isMetaCategory = (category: readonly string[]) =>
+    category.length > 0 && category[0] === metaLoggerCategory[0];
+  const levelVariable = `${prefix}LEVEL`;
+  const levelValue = getEnv(levelVariable)?.trim();
+  if (levelValue) {
+    const level = levelValue.toLowerCase();
+    if (isLogLevel(level)) {
+      for (const cfg of result.loggers) {
+        const category = getCategoryList(cfg.category);
+        if (isMetaCategory(category)) continue;
+        cfg.level = level;
+        result.overrides.push({ variable: levelVariable, category, level });
+      }
+    } else {
+      result.errors.push({
+        variable: levelVariable,
+        value: levelValue,
+        error: `Invalid log level: ${levelValue}.`,
+      });
+    }
+  }
+  const levelsVariable = `${prefix}LEVELS`;
+  const levelsValue = getEnv(levelsVariable);
+  for (const pair of levelsValue?.split(",") ?? []) {
+    if (pair.trim() === "") continue;
+    const match = /^\s*([^=\s]*)\s*=\s*(\S+)\s*$/.exec(pair);
+    const level = match?.[2].toLowerCase();
+    if (match == null || level == null || !isLogLevel(level)) {
+      result.errors.push({
+        variable: levelsVariable,
+        value: pair.trim(),
+        error: match == null
+          ? `Invalid category and level pair: ${pair.trim()}.`
+          : `Invalid log level: ${match[2]}.`,
+      });
+      continue;
+    }
+    const category = match[1] === "" ? [] : match[1].split(".");
+    const key = JSON.stringify(category);
+    const matched = result.loggers.filter((cfg) =>
+      JSON.stringify(getCategoryList(cfg.category)) === key
+    );
+    if (matched.length < 1) {
+      result.loggers.push({ category, level });
+    }
+    for (const cfg of matched) cfg.level = level;
+    result.overrides = result.overrides.filter((o) =>
+      JSON.stringify(o.category) !== key
+    );
+    result.overrides.push({ variable: levelsVariable, category, level });
+  }
+  return result;
 }
 
 /**
@@ -273,35 +767,53 @@ export function getConfig(): Config<string, string, string, unknown> | null {
  */
 export async function reset(): Promise<void> {
   await dispose();
-  LoggerImpl.getLogger([]).resetDescendants();
+  const rootLogger = LoggerImpl.getLogger([]);
+  rootLogger.resetDescendants();
+  delete rootLogger.contextLocalStorage;
+  delete rootLogger.getSpanContext;
   strongRefs.clear();
   currentConfig = null;
+  currentPlan = null;
+  asyncSinkWrappers = new WeakMap();
 }
 
 /**
  * Dispose of the disposables.
  */
 export async function dispose(): Promise<void> {
-  for (const disposable of disposables) disposable[Symbol.dispose]();
+  // Sinks that return promises without being async functions are not wrapped
+  // by resolveSink(), so their deliveries in progress are waited for here:
+  const pending = LoggerImpl.getLogger().pendingDeliveries;
+  while (pending != null && pending.size > 0) await Promise.all(pending);
+  // Synchronous disposables go first; a sink shared by several entries,
+  // e.g., wrapped by withFilter(), is disposed only once:
+  const objects = [...disposables, ...asyncDisposables];
   disposables.clear();
-  const promises: PromiseLike<void>[] = [];
-  for (const disposable of asyncDisposables) {
-    promises.push(disposable[Symbol.asyncDispose]());
-    asyncDisposables.delete(disposable);
-  }
-  await Promise.all(promises);
+  asyncDisposables.clear();
+  await teardown(objects);
 }
 
 /**
  * A configuration error.
  */
 export class ConfigError extends Error {
+  /**
+   * The JSON path to the invalid part of the configuration object, e.g.,
+   * `$.loggers[0].level`, if the error is about a configuration object
+   * given to `configureFromObject()`.
+   * @since 0.11.0
+   */
+  readonly path?: string;
+
   /**
    * Constructs a new configuration error.
    * @param message The error message.
+   * @param path The JSON path to the invalid part of the configuration object.
+   *             Available since LogTape 0.11.0.
    */
-  constructor(message: string) {
+  constructor(message: string, path?: string) {
     super(message);
     this.name = "ConfigureError";
+    this.path = path;
   }
 }
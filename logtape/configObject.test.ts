@@ -0,0 +1,155 @@
+import { assertEquals } from "@std/assert/assert-equals";
+import { assertRejects } from "@std/assert/assert-rejects";
+import { join } from "@std/path/join";
+import { ConfigError, reset } from "./config.ts";
+import {
+  configureFromObject,
+  registerFormatterFactory,
+  registerSinkFactory,
+} from "./configObject.ts";
+import { getLogger } from "./logger/index.ts";
+import type { LogRecord } from "./record.ts";
+
+Deno.test("configureFromObject()", async (t) => {
+  const buffers: Record<string, LogRecord[]> = {};
+  registerSinkFactory("buffer", (options) => {
+    const buffer: LogRecord[] = [];
+    buffers[options.name as string] = buffer;
+    return buffer.push.bind(buffer);
+  });
+  registerFormatterFactory(
+    "upper",
+    () => (record) =>
+      `${record.level.toUpperCase()} ${record.message.join("")}\n`,
+  );
+
+  await t.step("test", async () => {
+    const dirPath = Deno.makeTempDirSync();
+    const path = join(dirPath, "app.log");
+    await configureFromObject({
+      sinks: {
+        a: { type: "buffer", name: "a" },
+        b: { type: "buffer", name: "b" },
+        file: { type: "file", path, formatter: "upper" },
+        json: {
+          type: "file",
+          path: join(dirPath, "app.jsonl"),
+          formatter: { type: "json", properties: "flatten" },
+        },
+      },
+      filters: {
+        warnings: "level>=warning",
+        exactlyInfo: "level == info",
+        nothing: null,
+      },
+      loggers: [
+        { category: "my-app", sinks: ["a", "file", "json"], level: "debug" },
+        { category: ["my-app", "foo"], sinks: ["b"], filters: ["warnings"] },
+        {
+          category: ["my-app", "bar"],
+          sinks: ["b"],
+          parentSinks: "override",
+          filters: ["exactlyInfo"],
+        },
+        { category: ["my-app", "baz"], filters: ["nothing"] },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    getLogger("my-app").trace("ignored");
+    getLogger("my-app").debug("hello {name}", { name: "world" });
+    getLogger(["my-app", "foo"]).info("ignored");
+    getLogger(["my-app", "foo"]).error("foo");
+    getLogger(["my-app", "bar"]).warn("ignored");
+    getLogger(["my-app", "bar"]).info("bar");
+    getLogger(["my-app", "baz"]).fatal("ignored");
+    assertEquals(buffers.a.map((r) => r.message.join("")), [
+      "hello world",
+      "foo",
+    ]);
+    assertEquals(buffers.b.map((r) => r.message.join("")), ["foo", "bar"]);
+    await reset();
+    assertEquals(
+      Deno.readTextFileSync(path),
+      "DEBUG hello world\nERROR foo\n",
+    );
+    const jsonLines = Deno.readTextFileSync(join(dirPath, "app.jsonl"))
+      .trim().split("\n").map((line) => JSON.parse(line));
+    assertEquals(jsonLines.map((l) => [l.logger, l.message, l.name]), [
+      ["my-app", "hello world", "world"],
+      ["my-app.foo", "foo", undefined],
+    ]);
+  });
+
+  await t.step("errors", async () => {
+    const cases: [unknown, string, string][] = [
+      [null, "$", "Expected an object at $, but got null."],
+      [{ loggers: [], foo: 1 }, "$.foo", "Unknown key at $.foo."],
+      [{}, "$.loggers", "Expected an array at $.loggers, but got nothing."],
+      [
+        { sinks: { a: { type: "unknown" } }, loggers: [] },
+        "$.sinks.a.type",
+        'Expected one of "console", "stream", "file", "rotating-file", ' +
+        '"buffer" at $.sinks.a.type, but got "unknown".',
+      ],
+      [
+        { sinks: { "my sink": { type: "file" } }, loggers: [] },
+        '$.sinks["my sink"]',
+        'Missing required key at $.sinks["my sink"]: "path".',
+      ],
+      [
+        {
+          sinks: { f: { type: "rotating-file", path: "x", maxSize: "1MB" } },
+          loggers: [],
+        },
+        "$.sinks.f.maxSize",
+        'Expected a number at $.sinks.f.maxSize, but got "1MB".',
+      ],
+      [
+        {
+          sinks: { c: { type: "console", formatter: { type: "ansi", x: 1 } } },
+          loggers: [],
+        },
+        "$.sinks.c.formatter.x",
+        "Unknown key at $.sinks.c.formatter.x.",
+      ],
+      [
+        { filters: { f: "level=>warning" }, loggers: [] },
+        "$.filters.f",
+        'Invalid filter expression at $.filters.f: "level=>warning".',
+      ],
+      [
+        { filters: { f: "level>=loud" }, loggers: [] },
+        "$.filters.f",
+        'Unknown log level at $.filters.f: "loud".',
+      ],
+      [
+        { loggers: [{ category: "a" }, { category: "b", level: "loud" }] },
+        "$.loggers[1].level",
+        'Expected a log level at $.loggers[1].level, but got "loud".',
+      ],
+      [
+        { loggers: [{ category: "a", sinks: ["missing"] }] },
+        "$.loggers[0].sinks[0]",
+        'Undefined identifier at $.loggers[0].sinks[0]: "missing".',
+      ],
+      [
+        { loggers: [{ category: 123 }] },
+        "$.loggers[0].category",
+        "Expected a string or an array of strings at $.loggers[0].category, " +
+        "but got number 123.",
+      ],
+    ];
+    for (const [config, path, message] of cases) {
+      const error = await assertRejects(
+        () => configureFromObject(config),
+        ConfigError,
+        message,
+      );
+      assertEquals(error.path, path);
+    }
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
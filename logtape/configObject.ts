@@ -0,0 +1,585 @@
+import {
+  type Config,
+  ConfigError,
+  configure,
+  type LoggerConfig,
+} from "./config.ts";
+import { getFileSink, getRotatingFileSink } from "./filesink.jsr.ts";
+import type { Filter, FilterLike } from "./filter.ts";
+import {
+  type AnsiColorFormatterOptions,
+  getAnsiColorFormatter,
+  getJsonLinesFormatter,
+  getTextFormatter,
+  type JsonLinesFormatterOptions,
+  type TextFormatter,
+  type TextFormatterOptions,
+} from "./formatter.ts";
+import { compareLogLevel, isLogLevel, type LogLevel } from "./level.ts";
+import type { LogRecord } from "./record.ts";
+import {
+  type FileSinkOptions,
+  getConsoleSink,
+  getStreamSink,
+  type RotatingFileSinkOptions,
+  type Sink,
+} from "./sink.ts";
+
+/**
+ * A factory that creates a {@link Sink} from the options in a configuration
+ * object.  It should throw a {@link ConfigError} if the options are invalid.
+ * @param options The options of the sink, i.e., the sink object in
+ *                the configuration object except for the `type` key.
+ * @param path The JSON path to the sink object in the configuration object,
+ *             e.g., `$.sinks.console`, for error messages.
+ * @returns The sink.
+ * @since 0.11.0
+ */
+export type SinkFactory = (
+  options: Readonly<Record<string, unknown>>,
+  path: string,
+) => Sink;
+
+/**
+ * A factory that creates a {@link TextFormatter} from the options in
+ * a configuration object.  It should throw a {@link ConfigError} if
+ * the options are invalid.
+ * @param options The options of the formatter, i.e., the formatter object in
+ *                the configuration object except for the `type` key.
+ * @param path The JSON path to the formatter object in the configuration
+ *             object, e.g., `$.sinks.console.formatter`, for error messages.
+ * @returns The text formatter.
+ * @since 0.11.0
+ */
+export type FormatterFactory = (
+  options: Readonly<Record<string, unknown>>,
+  path: string,
+) => TextFormatter;
+
+/**
+ * The type of an option value in a configuration object:
+ *
+ * - `"string"`, `"number"`, `"boolean"`, `"object"`: A value of the type.
+ * - `"level"`: A log level name.
+ * - `"formatter"`: A formatter type name or a formatter object.
+ * - An array of strings: One of the strings.
+ */
+type OptionType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "level"
+  | "formatter"
+  | readonly string[];
+
+const ansiColors = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "darkorange",
+  "magenta",
+  "cyan",
+  "white",
+] as const;
+
+const ansiStyles = [
+  "bold",
+  "dim",
+  "italic",
+  "underline",
+  "strikethrough",
+] as const;
+
+const timestampFormats = [
+  "date-time-timezone",
+  "date-time-tz",
+  "date-time",
+  "time-timezone",
+  "time-tz",
+  "time",
+  "date",
+  "rfc3339",
+] as const;
+
+const textFormatterOptions: Record<string, OptionType> = {
+  timestamp: timestampFormats,
+  level: ["ABBR", "FULL", "L", "abbr", "full", "l"],
+  category: "string",
+  shouldPrintProperties: "boolean",
+  inspectConfig: "object",
+};
+
+const fileSinkOptions: Record<string, OptionType> = {
+  path: "string",
+  formatter: "formatter",
+  nonBlocking: "boolean",
+  bufferSize: "number",
+  flushInterval: "number",
+  syncLevel: "level",
+};
+
+const formatterFactories = new Map<string, FormatterFactory>([
+  ["text", (options, path) => {
+    checkOptions(options, path, textFormatterOptions);
+    return getTextFormatter(options as TextFormatterOptions);
+  }],
+  ["ansi", (options, path) => {
+    checkOptions(options, path, {
+      ...textFormatterOptions,
+      timestampStyle: ansiStyles,
+      timestampColor: ansiColors,
+      levelStyle: ansiStyles,
+      levelColors: "object",
+      categoryStyle: ansiStyles,
+      categoryColor: ansiColors,
+    });
+    for (const [level, color] of Object.entries(options.levelColors ?? {})) {
+      const colorPath = joinPath(joinPath(path, "levelColors"), level);
+      if (!isLogLevel(level)) {
+        throw new ConfigError(
+          `Unknown log level at ${colorPath}.`,
+          colorPath,
+        );
+      }
+      if (color !== null) checkValue(color, colorPath, ansiColors);
+    }
+    return getAnsiColorFormatter(options as AnsiColorFormatterOptions);
+  }],
+  ["json", (options, path) => {
+    checkOptions(options, path, {
+      categorySeparator: "string",
+      properties: ["nest", "flatten"],
+      propertiesKey: "string",
+    });
+    return getJsonLinesFormatter(options as JsonLinesFormatterOptions);
+  }],
+]);
+
+const sinkFactories = new Map<string, SinkFactory>([
+  ["console", (options, path) => {
+    checkOptions(options, path, { formatter: "formatter" });
+    return getConsoleSink({
+      formatter: createOptionalFormatter(options.formatter, path),
+    });
+  }],
+  ["stream", (options, path) => {
+    checkOptions(options, path, {
+      stream: ["stdout", "stderr"],
+      formatter: "formatter",
+    });
+    return getStreamSink(getStandardStream(options.stream ?? "stderr"), {
+      formatter: createOptionalFormatter(options.formatter, path),
+    });
+  }],
+  ["file", (options, path) => {
+    checkOptions(options, path, fileSinkOptions, ["path"]);
+    return getFileSink(options.path as string, {
+      ...options as FileSinkOptions,
+      formatter: createOptionalFormatter(options.formatter, path),
+    });
+  }],
+  ["rotating-file", (options, path) => {
+    checkOptions(options, path, {
+      ...fileSinkOptions,
+      maxSize: "number",
+      maxFiles: "number",
+      maxAge: "number",
+      interval: ["hourly", "daily", "weekly"],
+      utc: "boolean",
+      filenamePattern: "string",
+      compress: ["gzip", "deflate"],
+    }, ["path"]);
+    return getRotatingFileSink(options.path as string, {
+      ...options as RotatingFileSinkOptions,
+      formatter: createOptionalFormatter(options.formatter, path),
+    });
+  }],
+]);
+
+/**
+ * Registers a sink factory so that sinks of the given `type` can be used in
+ * configuration objects for {@link configureFromObject}.  The following types
+ * are built in:
+ *
+ * - `"console"`: {@link getConsoleSink}, with the `formatter` option.
+ * - `"stream"`: {@link getStreamSink}, with the `stream` (`"stdout"` or
+ *   `"stderr"`, the default) and `formatter` options.
+ * - `"file"`: `getFileSink()`, with the `path` option and the options of
+ *   {@link FileSinkOptions} that can be represented in JSON.
+ * - `"rotating-file"`: `getRotatingFileSink()`, with the `path` option and
+ *   the options of {@link RotatingFileSinkOptions} that can be represented
+ *   in JSON.
+ *
+ * @param type The type name of the sink.  It overrides the existing factory
+ *             of the same type, if any.
+ * @param factory The factory that creates the sink.
+ * @since 0.11.0
+ */
+export function registerSinkFactory(type: string, factory: SinkFactory): void {
+  sinkFactories.set(type, factory);
+}
+
+/**
+ * Registers a formatter factory so that formatters of the given `type` can be
+ * used in configuration objects for {@link configureFromObject}.
+ * The following types are built in:
+ *
+ * - `"text"`: {@link getTextFormatter}.
+ * - `"ansi"`: {@link getAnsiColorFormatter}.
+ * - `"json"`: {@link getJsonLinesFormatter}.
+ *
+ * The options that can be represented in JSON are available for the built-in
+ * formatters.
+ *
+ * @param type The type name of the formatter.  It overrides the existing
+ *             factory of the same type, if any.
+ * @param factory The factory that creates the formatter.
+ * @since 0.11.0
+ */
+export function registerFormatterFactory(
+  type: string,
+  factory: FormatterFactory,
+): void {
+  formatterFactories.set(type, factory);
+}
+
+/**
+ * Configure the loggers with a plain configuration object, e.g., parsed from
+ * a JSON or YAML file.  Unlike {@link configure}, sinks and formatters are
+ * specified by their type names and options, which are instantiated with
+ * the factories registered by {@link registerSinkFactory} and
+ * {@link registerFormatterFactory}, and filters are specified by filter
+ * expressions.
+ *
+ * A filter expression is either a log level name (e.g., `"warning"`), which
+ * accepts records of the level or more severe levels, or a comparison of
+ * the `level` with a log level name using one of the operators `>=`, `>`,
+ * `<=`, `<`, `==`, and `!=` (e.g., `"level>=warning"`).
+ *
+ * @example
+ * ```typescript
+ * await configureFromObject({
+ *   sinks: {
+ *     console: { type: "console", formatter: "ansi" },
+ *     file: {
+ *       type: "rotating-file",
+ *       path: "app.log",
+ *       interval: "daily",
+ *       formatter: { type: "json" },
+ *     },
+ *   },
+ *   filters: {
+ *     noisy: "level>=warning",
+ *   },
+ *   loggers: [
+ *     { category: "my-app", sinks: ["console", "file"], level: "info" },
+ *     { category: ["my-app", "http"], filters: ["noisy"] },
+ *     { category: ["logtape", "meta"], sinks: ["console"], level: "warning" },
+ *   ],
+ * });
+ * ```
+ *
+ * @param config The configuration object.
+ * @throws {ConfigError} If the configuration object is invalid.  The error
+ *                       message and its {@link ConfigError.path} tell where
+ *                       the problem is in the configuration object.
+ * @since 0.11.0
+ */
+export async function configureFromObject(config: unknown): Promise<void> {
+  const root = checkObject(config, "$");
+  checkKeys(root, "$", ["sinks", "filters", "loggers", "env", "reset"]);
+  const sinkSpecs = checkObject(root.sinks ?? {}, "$.sinks");
+  const filterSpecs = checkObject(root.filters ?? {}, "$.filters");
+  const loggerSpecs = root.loggers;
+  if (!Array.isArray(loggerSpecs)) {
+    throw new ConfigError(
+      `Expected an array at $.loggers, but got ${describe(loggerSpecs)}.`,
+      "$.loggers",
+    );
+  }
+  if (root.env != null) checkValue(root.env, "$.env", "boolean");
+  if (root.reset != null) checkValue(root.reset, "$.reset", "boolean");
+
+  const filters: Record<string, FilterLike> = {};
+  for (const [id, expression] of Object.entries(filterSpecs)) {
+    filters[id] = parseFilterExpression(
+      expression,
+      joinPath("$.filters", id),
+    );
+  }
+
+  const loggers: LoggerConfig<string, string, string>[] = [];
+  loggerSpecs.forEach((spec: unknown, index: number) => {
+    const path = `$.loggers[${index}]`;
+    const logger = checkObject(spec, path);
+    checkKeys(logger, path, [
+      "category",
+      "sinks",
+      "parentSinks",
+      "filters",
+      "level",
+    ]);
+    const { category, parentSinks, level } = logger;
+    if (
+      typeof category !== "string" &&
+      !(Array.isArray(category) &&
+        category.every((c: unknown) => typeof c === "string"))
+    ) {
+      throw new ConfigError(
+        `Expected a string or an array of strings at ${path}.category, ` +
+          `but got ${describe(category)}.`,
+        `${path}.category`,
+      );
+    }
+    const sinks = checkIds(logger.sinks, `${path}.sinks`, sinkSpecs);
+    const filterIds = checkIds(logger.filters, `${path}.filters`, filters);
+    if (parentSinks != null) {
+      checkValue(parentSinks, `${path}.parentSinks`, ["inherit", "override"]);
+    }
+    if (level != null) checkValue(level, `${path}.level`, "level");
+    loggers.push({
+      category,
+      sinks,
+      parentSinks: parentSinks as LoggerConfig<string, string, string>[
+        "parentSinks"
+      ],
+      filters: filterIds,
+      level: level as LogLevel | null | undefined,
+    });
+  });
+
+  for (const [id, spec] of Object.entries(sinkSpecs)) {
+    const path = joinPath("$.sinks", id);
+    const { type } = checkObject(spec, path);
+    checkValue(type, `${path}.type`, [...sinkFactories.keys()]);
+  }
+  const sinks: Record<string, Sink> = {};
+  try {
+    for (const [id, spec] of Object.entries(sinkSpecs)) {
+      const { type, ...options } = spec as Record<string, unknown>;
+      const factory = sinkFactories.get(type as string)!;
+      sinks[id] = factory(options, joinPath("$.sinks", id));
+    }
+  } catch (error) {
+    await disposeSinks(Object.values(sinks));
+    throw error;
+  }
+
+  const cfg: Config<string, string, string, unknown> = {
+    sinks,
+    filters,
+    loggers,
+    env: root.env as boolean | undefined,
+    reset: root.reset as boolean | undefined,
+  };
+  await configure(cfg);
+}
+
+async function disposeSinks(sinks: Sink[]): Promise<void> {
+  for (const sink of sinks) {
+    if (Symbol.dispose in sink) (sink as Sink & Disposable)[Symbol.dispose]();
+    if (Symbol.asyncDispose in sink) {
+      await (sink as Sink & AsyncDisposable)[Symbol.asyncDispose]();
+    }
+  }
+}
+
+const filterExpressionPattern =
+  /^\s*(?:level\s*(>=|<=|==|!=|>|<)\s*)?([A-Za-z][A-Za-z0-9_-]*)\s*$/;
+
+function parseFilterExpression(expression: unknown, path: string): FilterLike {
+  if (expression === null) return null;
+  if (typeof expression !== "string") {
+    throw new ConfigError(
+      `Expected a filter expression at ${path}, ` +
+        `but got ${describe(expression)}.`,
+      path,
+    );
+  }
+  const match = filterExpressionPattern.exec(expression);
+  if (match == null) {
+    throw new ConfigError(
+      `Invalid filter expression at ${path}: ${JSON.stringify(expression)}.`,
+      path,
+    );
+  }
+  const [, operator, levelName] = match;
+  const level = levelName.toLowerCase();
+  if (!isLogLevel(level)) {
+    throw new ConfigError(
+      `Unknown log level at ${path}: ${JSON.stringify(levelName)}.`,
+      path,
+    );
+  }
+  if (operator == null || operator === ">=") return level;
+  const predicates: Record<string, (comparison: number) => boolean> = {
+    ">": (c) => c > 0,
+    "<=": (c) => c <= 0,
+    "<": (c) => c < 0,
+    "==": (c) => c === 0,
+    "!=": (c) => c !== 0,
+  };
+  const predicate = predicates[operator];
+  const filter: Filter = (record: LogRecord) =>
+    predicate(compareLogLevel(record.level, level));
+  return filter;
+}
+
+function createOptionalFormatter(
+  spec: unknown,
+  sinkPath: string,
+): TextFormatter | undefined {
+  if (spec == null) return undefined;
+  const path = `${sinkPath}.formatter`;
+  if (typeof spec === "string") {
+    checkValue(spec, path, [...formatterFactories.keys()]);
+    return formatterFactories.get(spec)!({}, path);
+  }
+  const { type, ...options } = checkObject(spec, path);
+  checkValue(type, `${path}.type`, [...formatterFactories.keys()]);
+  return formatterFactories.get(type as string)!(options, path);
+}
+
+function getStandardStream(name: unknown): WritableStream {
+  const { Deno } = globalThis as {
+    Deno?: Record<"stdout" | "stderr", { writable: WritableStream }>;
+  };
+  if (Deno != null) {
+    return name === "stdout" ? Deno.stdout.writable : Deno.stderr.writable;
+  }
+  // @ts-ignore: It's fine to use process in Node
+  // deno-lint-ignore no-node-globals
+  const stream = name === "stdout" ? process.stdout : process.stderr;
+  return new WritableStream({
+    write(chunk: Uint8Array): Promise<void> {
+      return new Promise((resolve, reject) =>
+        stream.write(chunk, (error?: Error | null) => {
+          if (error == null) resolve();
+          else reject(error);
+        })
+      );
+    },
+  });
+}
+
+function checkOptions(
+  options: Readonly<Record<string, unknown>>,
+  path: string,
+  types: Record<string, OptionType>,
+  required: string[] = [],
+): void {
+  for (const key of required) {
+    if (options[key] == null) {
+      throw new ConfigError(
+        `Missing required key at ${path}: ${JSON.stringify(key)}.`,
+        path,
+      );
+    }
+  }
+  checkKeys(options, path, Object.keys(types));
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined) continue;
+    const type = types[key];
+    if (type === "formatter") continue;
+    checkValue(value, joinPath(path, key), type);
+  }
+}
+
+function checkKeys(
+  object: Readonly<Record<string, unknown>>,
+  path: string,
+  keys: readonly string[],
+): void {
+  for (const key of Object.keys(object)) {
+    if (!keys.includes(key)) {
+      const keyPath = joinPath(path, key);
+      throw new ConfigError(`Unknown key at ${keyPath}.`, keyPath);
+    }
+  }
+}
+
+function checkObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value == null || Array.isArray(value)) {
+    throw new ConfigError(
+      `Expected an object at ${path}, but got ${describe(value)}.`,
+      path,
+    );
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkValue(value: unknown, path: string, type: OptionType): void {
+  if (typeof type !== "string") {
+    if (typeof value === "string" && type.includes(value)) return;
+    throw new ConfigError(
+      `Expected one of ${type.map((t) => JSON.stringify(t)).join(", ")} ` +
+        `at ${path}, but got ${describe(value)}.`,
+      path,
+    );
+  }
+  if (type === "level") {
+    if (typeof value === "string" && isLogLevel(value)) return;
+    throw new ConfigError(
+      `Expected a log level at ${path}, but got ${describe(value)}.`,
+      path,
+    );
+  }
+  if (type === "object") {
+    checkObject(value, path);
+    return;
+  }
+  if (
+    type === "string"
+      ? typeof value === "string"
+      : type === "number"
+      ? typeof value === "number" && !Number.isNaN(value)
+      : typeof value === "boolean"
+  ) return;
+  throw new ConfigError(
+    `Expected a ${type} at ${path}, but got ${describe(value)}.`,
+    path,
+  );
+}
+
+function checkIds(
+  ids: unknown,
+  path: string,
+  defined: Readonly<Record<string, unknown>>,
+): string[] | undefined {
+  if (ids == null) return undefined;
+  if (!Array.isArray(ids)) {
+    throw new ConfigError(
+      `Expected an array at ${path}, but got ${describe(ids)}.`,
+      path,
+    );
+  }
+  ids.forEach((id: unknown, index: number) => {
+    const idPath = `${path}[${index}]`;
+    checkValue(id, idPath, "string");
+    if (!Object.prototype.hasOwnProperty.call(defined, id as string)) {
+      throw new ConfigError(
+        `Undefined identifier at ${idPath}: ${JSON.stringify(id)}.`,
+        idPath,
+      );
+    }
+  });
+  return ids;
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "object") return "an object";
+  if (typeof value === "undefined") return "nothing";
+  return `${typeof value} ${String(value)}`;
+}
@@ -4,3 +4,18 @@ export const metaLoggerCategory = ["logtape", "meta"];
  * The symbol for the global root logger.
  */
 export const globalRootLoggerSymbol = Symbol.for("logtape.rootLogger");
+
+/**
+ * The key of the current wide event in the implicit context.
+ */
+export const wideEventSymbol = Symbol.for("logtape.wideEvent");
+
+/**
+ * The key of the ID of the current span in the implicit context.
+ */
+export const spanIdSymbol = Symbol.for("logtape.spanId");
+
+/**
+ * The key of the trace context in the implicit context.
+ */
+export const traceContextSymbol = Symbol.for("logtape.traceContext");
@@ -0,0 +1,226 @@
+import { assert } from "@std/assert/assert";
+import { assertEquals } from "@std/assert/assert-equals";
+import { assertStrictEquals } from "@std/assert/assert-strict-equals";
+import { delay } from "@std/async/delay";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { configure, reset } from "./config.ts";
+import { getCurrentEvent, withContext } from "./context.ts";
+import { getLogger } from "./logger/index.ts";
+import type { LogRecord } from "./record.ts";
+
+Deno.test("withContext()", async (t) => {
+  const buffer: LogRecord[] = [];
+
+  await t.step("set up", async () => {
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+      },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"], level: "debug" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+      contextLocalStorage: new AsyncLocalStorage(),
+      reset: true,
+    });
+  });
+
+  await t.step("test", () => {
+    const logger = getLogger("my-app");
+    logger.debug("hello", { foo: 1, bar: 2 });
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].properties, { foo: 1, bar: 2 });
+    buffer.pop();
+    const rv = withContext({ foo: 3, baz: 4 }, () => {
+      logger.debug("hello", { foo: 1, bar: 2 });
+      return 123;
+    });
+    assertEquals(rv, 123);
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].properties, { foo: 1, bar: 2, baz: 4 });
+    buffer.pop();
+    logger.debug("hello", { foo: 1, bar: 2 });
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].properties, { foo: 1, bar: 2 });
+    buffer.pop();
+  });
+
+  await t.step("nesting", () => {
+    const logger = getLogger("my-app").with({ qux: 5 });
+    withContext({ foo: 1, bar: 2 }, () => {
+      withContext({ foo: 3, baz: 4 }, () => {
+        logger.debug("hello");
+        logger.info`hello`;
+        logger.warn((l) => l`hello`);
+      });
+      logger.error("hello", { bar: 6 });
+    });
+    assertEquals(buffer.map((r) => r.properties), [
+      { foo: 3, bar: 2, baz: 4, qux: 5 },
+      { foo: 3, bar: 2, baz: 4, qux: 5 },
+      { foo: 3, bar: 2, baz: 4, qux: 5 },
+      { foo: 1, bar: 6, qux: 5 },
+    ]);
+    while (buffer.length > 0) buffer.pop();
+  });
+
+  await t.step("async", async () => {
+    const logger = getLogger("my-app");
+    await Promise.all([
+      withContext({ id: 1 }, async () => {
+        await delay(20);
+        logger.debug("first");
+      }),
+      withContext({ id: 2 }, async () => {
+        await delay(10);
+        logger.debug("second");
+      }),
+    ]);
+    assertEquals(buffer.map((r) => [r.message, r.properties]), [
+      [["second"], { id: 2 }],
+      [["first"], { id: 1 }],
+    ]);
+    while (buffer.length > 0) buffer.pop();
+  });
+
+  await t.step("properties transformer", async () => {
+    const received: unknown[] = [];
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+      },
+      propTransformers: {
+        upper: ({ properties }) => {
+          received.push(properties);
+          return Object.fromEntries(
+            Object.entries(properties ?? {}).map(([k, v]) => [
+              k,
+              String(v).toUpperCase(),
+            ]),
+          );
+        },
+      },
+      loggers: [
+        {
+          category: "my-app",
+          sinks: ["buffer"],
+          propTransformers: ["upper"],
+          level: "debug",
+        },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+      contextLocalStorage: new AsyncLocalStorage(),
+      reset: true,
+    });
+    const logger = getLogger("my-app").with({ bar: "b" });
+    // The implicit context is merged before the transformer runs, whichever
+    // form of call is used:
+    withContext({ foo: "f" }, () => {
+      logger.debug("hello");
+      logger.info`hello`;
+      logger.warn((l) => l`hello`);
+    });
+    assertEquals(buffer.map((r) => r.properties), [
+      { foo: "F", bar: "B" },
+      { foo: "F", bar: "B" },
+      { foo: "F", bar: "B" },
+    ]);
+    assertEquals(received, [
+      { foo: "f", bar: "b" },
+      { foo: "f", bar: "b" },
+      { foo: "f", bar: "b" },
+    ]);
+    while (buffer.length > 0) buffer.pop();
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+
+  const metaBuffer: LogRecord[] = [];
+
+  await t.step("set up", async () => {
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+        metaBuffer: metaBuffer.push.bind(metaBuffer),
+      },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"], level: "debug" },
+        {
+          category: ["logtape", "meta"],
+          sinks: ["metaBuffer"],
+          level: "warning",
+        },
+      ],
+      reset: true,
+    });
+  });
+
+  await t.step("without settings", () => {
+    const logger = getLogger("my-app");
+    const rv = withContext({ foo: 1 }, () => {
+      logger.debug("hello", { bar: 2 });
+      return 123;
+    });
+    assertEquals(rv, 123);
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].properties, { bar: 2 });
+    assertEquals(metaBuffer.length, 1);
+    assertEquals(metaBuffer[0].level, "warning");
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+Deno.test("getCurrentEvent()", async (t) => {
+  const buffer: LogRecord[] = [];
+
+  await t.step("set up", async () => {
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+      },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"], level: "debug" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+      contextLocalStorage: new AsyncLocalStorage(),
+      reset: true,
+    });
+  });
+
+  await t.step("test", async () => {
+    const logger = getLogger("my-app");
+    assertEquals(getCurrentEvent(), undefined);
+    const event = logger.beginEvent("Handled {request}.", { path: "/" });
+    await withContext({ requestId: "abc" }, () =>
+      event.run(async () => {
+        assertStrictEquals(getCurrentEvent(), event);
+        await delay(1);
+        getCurrentEvent()?.set("userId", 123).increment("queries");
+        withContext({ step: "render" }, () => {
+          getCurrentEvent()?.increment("queries", 2);
+          logger.debug("Rendering.");
+        });
+      }));
+    assertEquals(getCurrentEvent(), undefined);
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].properties, { requestId: "abc", step: "render" });
+    event.end();
+    assertEquals(buffer.length, 2);
+    assertEquals(buffer[1].message, ["Handled {request}."]);
+    const { durationMs, ...properties } = buffer[1].properties as Record<
+      string,
+      unknown
+    >;
+    assert(typeof durationMs === "number" && durationMs >= 1);
+    assertEquals(properties, { path: "/", userId: 123, queries: 3 });
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
@@ -0,0 +1,102 @@
+import { metaLoggerCategory } from "./constants.ts";
+import { LoggerImpl, type WideEvent } from "./logger/index.ts";
+
+/**
+ * A generic interface for a context-local storage.  It resembles
+ * the [`AsyncLocalStorage`] API from Node.js.
+ *
+ * [`AsyncLocalStorage`]: https://nodejs.org/api/async_context.html#class-asynclocalstorage
+ *
+ * @typeParam T The type of the context-local store.
+ * @since 0.11.0
+ */
+export interface ContextLocalStorage<T> {
+  /**
+   * Runs a callback synchronously within a context and returns its return
+   * value.  The store is accessible to any asynchronous operations created
+   * within the callback.
+   * @param store The store to run the callback with.
+   * @param callback The callback to run.
+   * @returns The return value of the callback.
+   */
+  run<R>(store: T, callback: () => R): R;
+
+  /**
+   * Returns the current store.  If called outside of any context,
+   * it returns `undefined`.
+   * @returns The current store, or `undefined` if not in any context.
+   */
+  getStore(): T | undefined;
+}
+
+/**
+ * Runs a callback with the given implicit context.  Every log record emitted
+ * within the callback, including ones emitted in asynchronous operations
+ * created within it, has the given properties.  Nested contexts inherit
+ * the properties of the enclosing contexts.
+ *
+ * Note that the `contextLocalStorage` option must be set in the configuration
+ * to use this function.  Otherwise, the callback is run without any implicit
+ * context, and a warning is logged to the meta logger.
+ *
+ * @example
+ * ```typescript
+ * await configure({
+ *   // Omitted for brevity
+ *   contextLocalStorage: new AsyncLocalStorage(),
+ * });
+ *
+ * withContext({ requestId: "abc123" }, () => {
+ *   // The log record has the `requestId` property:
+ *   getLogger("my-app").info("Handling a request.");
+ * });
+ * ```
+ *
+ * @typeParam T The return type of the callback.
+ * @param context The properties to add to the implicit context.
+ * @param callback The callback to run.
+ * @returns The return value of the callback.
+ * @since 0.11.0
+ */
+export function withContext<T>(
+  context: Record<string, unknown>,
+  callback: () => T,
+): T {
+  const rootLogger = LoggerImpl.getLogger();
+  if (rootLogger.contextLocalStorage == null) {
+    LoggerImpl.getLogger(metaLoggerCategory).warn(
+      "Context-local storage is not configured.  " +
+        "Specify the contextLocalStorage option in the configure() function.",
+    );
+    return callback();
+  }
+  const parentContext = rootLogger.contextLocalStorage.getStore() ?? {};
+  return rootLogger.contextLocalStorage.run(
+    { ...parentContext, ...context },
+    callback,
+  );
+}
+
+/**
+ * Gets the current wide event, i.e., the event whose {@link WideEvent.run}
+ * callback is running.  This lets nested code add properties to the event
+ * without passing it around.
+ *
+ * Note that the `contextLocalStorage` option must be set in the configuration
+ * to use this function.
+ *
+ * @example
+ * ```typescript
+ * const event = getLogger("my-app").beginEvent("Handled a request.");
+ * await event.run(async () => {
+ *   await authenticate();  // Calls getCurrentEvent()?.set("userId", ...)
+ * });
+ * event.end();
+ * ```
+ *
+ * @returns The current wide event, or `undefined` if not in any event.
+ * @since 0.11.0
+ */
+export function getCurrentEvent(): WideEvent | undefined {
+  return LoggerImpl.getLogger().getCurrentEvent();
+}
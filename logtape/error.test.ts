@@ -0,0 +1,70 @@
+import { assertEquals } from "@std/assert/assert-equals";
+import { parseStackTrace, serializeError } from "./error.ts";
+
+Deno.test("parseStackTrace()", () => {
+  assertEquals(
+    parseStackTrace(
+      "TypeError: Oops\n" +
+        "    at foo (file:///app/main.ts:1:2)\n" +
+        "    at async Bar.baz (http://localhost/bar.js:3:4)\n" +
+        "    at file:///app/main.ts:5:6\n" +
+        "    at new Promise (<anonymous>)",
+    ),
+    [
+      { function: "foo", file: "file:///app/main.ts", line: 1, column: 2 },
+      {
+        function: "async Bar.baz",
+        file: "http://localhost/bar.js",
+        line: 3,
+        column: 4,
+      },
+      { file: "file:///app/main.ts", line: 5, column: 6 },
+      { function: "new Promise", file: "<anonymous>" },
+    ],
+  );
+  assertEquals(
+    parseStackTrace(
+      "foo@http://localhost/foo.js:1:2\n@http://localhost/bar.js:3:4\n",
+    ),
+    [
+      { function: "foo", file: "http://localhost/foo.js", line: 1, column: 2 },
+      { file: "http://localhost/bar.js", line: 3, column: 4 },
+    ],
+  );
+  assertEquals(parseStackTrace("Error: no frames"), []);
+});
+
+Deno.test("serializeError()", () => {
+  const cause = new Error("Cause");
+  const error = new AggregateError([new RangeError("Inner"), 123], "Outer", {
+    cause,
+  });
+  Object.assign(error, { code: "E_OUTER" });
+  error.stack = "AggregateError: Outer\n    at main (file:///main.ts:1:2)";
+  cause.stack = undefined;
+  const serialized = serializeError(error);
+  assertEquals(serialized.name, "AggregateError");
+  assertEquals(serialized.message, "Outer");
+  assertEquals(serialized.frames, [
+    { function: "main", file: "file:///main.ts", line: 1, column: 2 },
+  ]);
+  assertEquals(serialized.cause, {
+    name: "Error",
+    message: "Cause",
+    frames: [],
+  });
+  assertEquals(
+    (serialized.errors?.[0] as Record<string, unknown>).name,
+    "RangeError",
+  );
+  assertEquals(serialized.errors?.[1], 123);
+  assertEquals(serialized.code, "E_OUTER");
+
+  const a = new Error("A");
+  const b = new Error("B", { cause: a });
+  Object.defineProperty(a, "cause", { value: b });
+  assertEquals(
+    (serializeError(a).cause as Record<string, unknown>).cause,
+    "[Circular]",
+  );
+});
@@ -0,0 +1,140 @@
+/**
+ * A stack frame parsed from the stack trace of an error.
+ * @since 0.11.0
+ */
+export interface StackFrame {
+  /**
+   * The name of the function, if any, e.g., `"async handleRequest"`.
+   */
+  readonly function?: string;
+
+  /**
+   * The file name or URL, e.g., `"file:///app/main.ts"`.  It can also be
+   * a special value like `"<anonymous>"` or `"native"`.
+   */
+  readonly file: string;
+
+  /**
+   * The line number, if known.  It starts from 1.
+   */
+  readonly line?: number;
+
+  /**
+   * The column number, if known.  It starts from 1.
+   */
+  readonly column?: number;
+}
+
+/**
+ * A structured representation of an error, which is suitable for structured
+ * formatters.  Besides the following fields, the enumerable own properties of
+ * the error (e.g., `code`) are included as they are.
+ * @since 0.11.0
+ */
+export interface SerializedError {
+  /**
+   * The name of the error, e.g., `"TypeError"`.
+   */
+  readonly name: string;
+
+  /**
+   * The error message.
+   */
+  readonly message: string;
+
+  /**
+   * The raw stack trace, if any.
+   */
+  readonly stack?: string;
+
+  /**
+   * The parsed stack frames.  Empty if the stack trace is unavailable or
+   * in an unknown format.
+   */
+  readonly frames: readonly StackFrame[];
+
+  /**
+   * The cause of the error, if any.  If the cause is an error, it is
+   * serialized as well.  A circular cause chain ends with `"[Circular]"`.
+   */
+  readonly cause?: unknown;
+
+  /**
+   * The aggregated errors, if the error is an `AggregateError`.  The errors
+   * among them are serialized as well.
+   */
+  readonly errors?: readonly unknown[];
+
+  readonly [key: string]: unknown;
+}
+
+const v8FramePattern =
+  /^\s*at\s+(?:(.*?)\s+\()?(.*?)(?::(\d+))?(?::(\d+))?\)?$/;
+const geckoFramePattern = /^\s*(.*?)@(.*?)(?::(\d+))?(?::(\d+))?$/;
+
+/**
+ * Parses a stack trace into stack frames.  It understands the formats of V8
+ * (Deno, Node.js, Bun, and Chromium) and of SpiderMonkey and JavaScriptCore
+ * (Firefox and Safari).  Lines that are not stack frames, e.g., the error
+ * message, are skipped.
+ * @param stack The stack trace, i.e., the `stack` property of an error.
+ * @returns The parsed stack frames.
+ * @since 0.11.0
+ */
+export function parseStackTrace(stack: string): StackFrame[] {
+  const lines = stack.split("\n");
+  const isV8 = lines.some((line) => /^\s+at\s/.test(line));
+  const frames: StackFrame[] = [];
+  for (const line of lines) {
+    if (isV8 && !/^\s+at\s/.test(line)) continue;
+    const match = (isV8 ? v8FramePattern : geckoFramePattern).exec(line);
+    if (match == null || match[2] === "") continue;
+    const frame: {
+      function?: string;
+      file: string;
+      line?: number;
+      column?: number;
+    } = { file: match[2] };
+    if (match[1]) frame.function = match[1];
+    if (match[3] != null) frame.line = parseInt(match[3]);
+    if (match[4] != null) frame.column = parseInt(match[4]);
+    frames.push(frame);
+  }
+  return frames;
+}
+
+/**
+ * Serializes an error into a plain object, including its stack frames,
+ * its `cause` chain, the aggregated errors of an `AggregateError`, and its
+ * enumerable own properties.  Values other than errors are kept as they are.
+ * @param error The error to serialize.
+ * @returns The serialized error.
+ * @since 0.11.0
+ */
+export function serializeError(error: Error): SerializedError {
+  return serializeErrorImpl(error, new Set());
+}
+
+function serializeErrorImpl(error: Error, seen: Set<Error>): SerializedError {
+  seen.add(error);
+  const serialize = (value: unknown) =>
+    value instanceof Error
+      ? seen.has(value) ? "[Circular]" : serializeErrorImpl(value, seen)
+      : value;
+  const result: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+  };
+  if (typeof error.stack === "string") result.stack = error.stack;
+  result.frames = typeof error.stack === "string"
+    ? parseStackTrace(error.stack)
+    : [];
+  const { cause, errors } = error as { cause?: unknown; errors?: unknown };
+  if (cause !== undefined) result.cause = serialize(cause);
+  if (Array.isArray(errors)) result.errors = errors.map(serialize);
+  for (const [key, value] of Object.entries(error)) {
+    if (!(key in result)) result[key] = value;
+  }
+  seen.delete(error);
+  return result as SerializedError;
+}
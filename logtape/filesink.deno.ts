@@ -1,9 +1,11 @@
 import { webDriver } from "./filesink.web.ts";
 import {
+  type AsyncRotatingFileSinkDriver,
   type FileSinkOptions,
   getFileSink as getBaseFileSink,
+  getNonBlockingFileSink,
+  getNonBlockingRotatingFileSink,
   getRotatingFileSink as getBaseRotatingFileSink,
-  type RotatingFileSinkDriver,
   type RotatingFileSinkOptions,
   type Sink,
 } from "./sink.ts";
@@ -11,7 +13,7 @@ import {
 /**
  * A Deno-specific file sink driver.
  */
-export const denoDriver: RotatingFileSinkDriver<Deno.FsFile> = {
+export const denoDriver: AsyncRotatingFileSinkDriver<Deno.FsFile> = {
   openSync(path: string) {
     return Deno.openSync(path, { create: true, append: true });
   },
@@ -26,6 +28,30 @@ export const denoDriver: RotatingFileSinkDriver<Deno.FsFile> = {
   },
   statSync: globalThis?.Deno.statSync,
   renameSync: globalThis?.Deno.renameSync,
+  readdirSync(path) {
+    return [...Deno.readDirSync(path)].map((entry) => entry.name);
+  },
+  unlinkSync: globalThis?.Deno.removeSync,
+  async *readChunks(path) {
+    const file = await Deno.open(path);
+    yield* file.readable;
+  },
+  async write(fd, chunk) {
+    let written = 0;
+    while (written < chunk.length) {
+      const n = await fd.write(chunk.subarray(written));
+      // Retrying a write that wrote nothing would loop forever:
+      if (n < 1) throw new Error("Failed to write to the file.");
+      written += n;
+    }
+  },
+  flush(fd) {
+    return fd.sync();
+  },
+  close(fd) {
+    fd.close();
+    return Promise.resolve();
+  },
 };
 
 /**
@@ -38,14 +64,55 @@ export const denoDriver: RotatingFileSinkDriver<Deno.FsFile> = {
  * @returns A sink that writes to the file.  The sink is also a disposable
  *          object that closes the file when disposed.
  */
+export function getFileSink(
+  path: string,
+  options?: FileSinkOptions & { nonBlocking?: false },
+): Sink & Disposable;
+
+/**
+ * Get a non-blocking file sink.  See also {@link FileSinkOptions.nonBlocking}.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
+ */
+export function getFileSink(
+  path: string,
+  options: FileSinkOptions & { nonBlocking: true },
+): Sink & AsyncDisposable;
+
+/**
+ * Get a file sink, which is non-blocking if `nonBlocking` is turned on.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the file.  The sink is also either
+ *          a disposable or an async disposable object that closes the file
+ *          when disposed.
+ * @since 0.11.0
+ */
+export function getFileSink(
+  path: string,
+  options?: FileSinkOptions,
+): Sink & (Disposable | AsyncDisposable);
+
 export function getFileSink(
   path: string,
   options: FileSinkOptions = {},
-): Sink & Disposable {
-  if ("document" in globalThis) {
-    return getBaseFileSink(path, { ...options, ...webDriver });
+): Sink & (Disposable | AsyncDisposable) {
+  const driver: AsyncRotatingFileSinkDriver<Deno.FsFile | void> =
+    "document" in globalThis ? webDriver : denoDriver;
+  if (options.nonBlocking) {
+    return getNonBlockingFileSink(path, { ...options, ...driver });
   }
-  return getBaseFileSink(path, { ...options, ...denoDriver });
+  return getBaseFileSink(path, { ...options, ...driver });
 }
 
 /**
@@ -61,16 +128,61 @@ export function getFileSink(
  * @param path A path to the file to write to.
  * @param options The options for the sink and the file driver.
  * @returns A sink that writes to the file.  The sink is also a disposable
- *          object that closes the file when disposed.
+ *          object that closes the file when disposed, and an async
+ *          disposable object that also waits for the compression of rotated
+ *          files.
+ */
+export function getRotatingFileSink(
+  path: string,
+  options?: RotatingFileSinkOptions & { nonBlocking?: false },
+): Sink & Disposable & AsyncDisposable;
+
+/**
+ * Get a non-blocking rotating file sink.  See also
+ * {@link FileSinkOptions.nonBlocking}.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
  */
+export function getRotatingFileSink(
+  path: string,
+  options: RotatingFileSinkOptions & { nonBlocking: true },
+): Sink & AsyncDisposable;
+
+/**
+ * Get a rotating file sink, which is non-blocking if `nonBlocking` is turned
+ * on.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also either
+ *          a disposable or an async disposable object that closes the file
+ *          when disposed.
+ * @since 0.11.0
+ */
+export function getRotatingFileSink(
+  path: string,
+  options?: RotatingFileSinkOptions,
+): Sink & (Disposable | AsyncDisposable);
+
 export function getRotatingFileSink(
   path: string,
   options: RotatingFileSinkOptions = {},
-): Sink & Disposable {
-  if ("document" in globalThis) {
-    return getBaseRotatingFileSink(path, { ...options, ...webDriver });
+): Sink & (Disposable | AsyncDisposable) {
+  const driver: AsyncRotatingFileSinkDriver<Deno.FsFile | void> =
+    "document" in globalThis ? webDriver : denoDriver;
+  if (options.nonBlocking) {
+    return getNonBlockingRotatingFileSink(path, { ...options, ...driver });
   }
-  return getBaseRotatingFileSink(path, { ...options, ...denoDriver });
+  return getBaseRotatingFileSink(path, { ...options, ...driver });
 }
 
 // cSpell: ignore filesink
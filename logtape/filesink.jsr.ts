@@ -15,10 +15,49 @@ const filesink: Omit<typeof import("./filesink.deno.ts"), "denoDriver"> =
  * @returns A sink that writes to the file.  The sink is also a disposable
  *          object that closes the file when disposed.
  */
+export function getFileSink(
+  path: string,
+  options?: FileSinkOptions & { nonBlocking?: false },
+): Sink & Disposable;
+
+/**
+ * Get a non-blocking file sink.  See also {@link FileSinkOptions.nonBlocking}.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
+ */
+export function getFileSink(
+  path: string,
+  options: FileSinkOptions & { nonBlocking: true },
+): Sink & AsyncDisposable;
+
+/**
+ * Get a file sink, which is non-blocking if `nonBlocking` is turned on.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the file.  The sink is also either
+ *          a disposable or an async disposable object that closes the file
+ *          when disposed.
+ * @since 0.11.0
+ */
+export function getFileSink(
+  path: string,
+  options?: FileSinkOptions,
+): Sink & (Disposable | AsyncDisposable);
+
 export function getFileSink(
   path: string,
   options: FileSinkOptions = {},
-): Sink & Disposable {
+): Sink & (Disposable | AsyncDisposable) {
   return filesink.getFileSink(path, options);
 }
 
@@ -35,12 +74,55 @@ export function getFileSink(
  * @param path A path to the file to write to.
  * @param options The options for the sink and the file driver.
  * @returns A sink that writes to the file.  The sink is also a disposable
- *          object that closes the file when disposed.
+ *          object that closes the file when disposed, and an async
+ *          disposable object that also waits for the compression of rotated
+ *          files.
  */
+export function getRotatingFileSink(
+  path: string,
+  options?: RotatingFileSinkOptions & { nonBlocking?: false },
+): Sink & Disposable & AsyncDisposable;
+
+/**
+ * Get a non-blocking rotating file sink.  See also
+ * {@link FileSinkOptions.nonBlocking}.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
+ */
+export function getRotatingFileSink(
+  path: string,
+  options: RotatingFileSinkOptions & { nonBlocking: true },
+): Sink & AsyncDisposable;
+
+/**
+ * Get a rotating file sink, which is non-blocking if `nonBlocking` is turned
+ * on.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also either
+ *          a disposable or an async disposable object that closes the file
+ *          when disposed.
+ * @since 0.11.0
+ */
+export function getRotatingFileSink(
+  path: string,
+  options?: RotatingFileSinkOptions,
+): Sink & (Disposable | AsyncDisposable);
+
 export function getRotatingFileSink(
   path: string,
   options: RotatingFileSinkOptions = {},
-): Sink & Disposable {
+): Sink & (Disposable | AsyncDisposable) {
   return filesink.getRotatingFileSink(path, options);
 }
 
@@ -3,10 +3,12 @@ import fsMod from "./fs.ts";
 import type fsType from "node:fs";
 import { webDriver } from "./filesink.web.ts";
 import {
+  type AsyncRotatingFileSinkDriver,
   type FileSinkOptions,
   getFileSink as getBaseFileSink,
+  getNonBlockingFileSink,
+  getNonBlockingRotatingFileSink,
   getRotatingFileSink as getBaseRotatingFileSink,
-  type RotatingFileSinkDriver,
   type RotatingFileSinkOptions,
   type Sink,
 } from "./sink.ts";
@@ -15,9 +17,10 @@ import {
 const fs = fsMod as (typeof fsType | null);
 
 /**
- * A Node.js-specific file sink driver.
+ * A Node.js-specific file sink driver.  It is also used in Bun, which
+ * implements the `node:fs` module.
  */
-export const nodeDriver: RotatingFileSinkDriver<number | void> = fs == null
+export const nodeDriver: AsyncRotatingFileSinkDriver<number | void> = fs == null
   ? webDriver
   : {
     openSync(path: string) {
@@ -28,6 +31,41 @@ export const nodeDriver: RotatingFileSinkDriver<number | void> = fs == null
     closeSync: fs.closeSync,
     statSync: fs.statSync,
     renameSync: fs.renameSync,
+    readdirSync(path) {
+      return fs.readdirSync(path);
+    },
+    unlinkSync: fs.unlinkSync,
+    readChunks(path) {
+      return fs.createReadStream(path);
+    },
+    async write(fd, chunk) {
+      let written = 0;
+      while (written < chunk.length) {
+        const n = await new Promise<number>((resolve, reject) =>
+          fs.write(
+            fd as number,
+            chunk,
+            written,
+            chunk.length - written,
+            null,
+            (err, bytesWritten) => err ? reject(err) : resolve(bytesWritten),
+          )
+        );
+        // Retrying a write that wrote nothing would loop forever:
+        if (n < 1) throw new Error("Failed to write to the file.");
+        written += n;
+      }
+    },
+    flush(fd) {
+      return new Promise((resolve, reject) =>
+        fs.fsync(fd as number, (err) => err ? reject(err) : resolve())
+      );
+    },
+    close(fd) {
+      return new Promise((resolve, reject) =>
+        fs.close(fd as number, (err) => err ? reject(err) : resolve())
+      );
+    },
   };
 
 /**
@@ -40,14 +78,55 @@ export const nodeDriver: RotatingFileSinkDriver<number | void> = fs == null
  * @returns A sink that writes to the file.  The sink is also a disposable
  *          object that closes the file when disposed.
  */
+export function getFileSink(
+  path: string,
+  options?: FileSinkOptions & { nonBlocking?: false },
+): Sink & Disposable;
+
+/**
+ * Get a non-blocking file sink.  See also {@link FileSinkOptions.nonBlocking}.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
+ */
+export function getFileSink(
+  path: string,
+  options: FileSinkOptions & { nonBlocking: true },
+): Sink & AsyncDisposable;
+
+/**
+ * Get a file sink, which is non-blocking if `nonBlocking` is turned on.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the file.  The sink is also either
+ *          a disposable or an async disposable object that closes the file
+ *          when disposed.
+ * @since 0.11.0
+ */
+export function getFileSink(
+  path: string,
+  options?: FileSinkOptions,
+): Sink & (Disposable | AsyncDisposable);
+
 export function getFileSink(
   path: string,
   options: FileSinkOptions = {},
-): Sink & Disposable {
-  if ("document" in globalThis) {
-    return getBaseFileSink(path, { ...options, ...webDriver });
+): Sink & (Disposable | AsyncDisposable) {
+  const driver: AsyncRotatingFileSinkDriver<number | void> =
+    "document" in globalThis ? webDriver : nodeDriver;
+  if (options.nonBlocking) {
+    return getNonBlockingFileSink(path, { ...options, ...driver });
   }
-  return getBaseFileSink(path, { ...options, ...nodeDriver });
+  return getBaseFileSink(path, { ...options, ...driver });
 }
 
 /**
@@ -63,16 +142,61 @@ export function getFileSink(
  * @param path A path to the file to write to.
  * @param options The options for the sink and the file driver.
  * @returns A sink that writes to the file.  The sink is also a disposable
- *          object that closes the file when disposed.
+ *          object that closes the file when disposed, and an async
+ *          disposable object that also waits for the compression of rotated
+ *          files.
+ */
+export function getRotatingFileSink(
+  path: string,
+  options?: RotatingFileSinkOptions & { nonBlocking?: false },
+): Sink & Disposable & AsyncDisposable;
+
+/**
+ * Get a non-blocking rotating file sink.  See also
+ * {@link FileSinkOptions.nonBlocking}.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
  */
+export function getRotatingFileSink(
+  path: string,
+  options: RotatingFileSinkOptions & { nonBlocking: true },
+): Sink & AsyncDisposable;
+
+/**
+ * Get a rotating file sink, which is non-blocking if `nonBlocking` is turned
+ * on.
+ *
+ * Note that this function is unavailable in the browser.
+ *
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also either
+ *          a disposable or an async disposable object that closes the file
+ *          when disposed.
+ * @since 0.11.0
+ */
+export function getRotatingFileSink(
+  path: string,
+  options?: RotatingFileSinkOptions,
+): Sink & (Disposable | AsyncDisposable);
+
 export function getRotatingFileSink(
   path: string,
   options: RotatingFileSinkOptions = {},
-): Sink & Disposable {
-  if ("document" in globalThis) {
-    return getBaseRotatingFileSink(path, { ...options, ...webDriver });
+): Sink & (Disposable | AsyncDisposable) {
+  const driver: AsyncRotatingFileSinkDriver<number | void> =
+    "document" in globalThis ? webDriver : nodeDriver;
+  if (options.nonBlocking) {
+    return getNonBlockingRotatingFileSink(path, { ...options, ...driver });
   }
-  return getBaseRotatingFileSink(path, { ...options, ...nodeDriver });
+  return getBaseRotatingFileSink(path, { ...options, ...driver });
 }
 
 // cSpell: ignore filesink
@@ -1,4 +1,5 @@
 import { assertEquals } from "@std/assert/assert-equals";
+import { delay } from "@std/async/delay";
 import { join } from "@std/path/join";
 import { getFileSink, getRotatingFileSink } from "./filesink.deno.ts";
 import { critical, debug, error, fatal, info, warning } from "./fixtures.ts";
@@ -137,4 +138,288 @@ Deno.test("getRotatingFileSink()", () => {
   sink2[Symbol.dispose]();
 });
 
+Deno.test("getFileSink() [nonBlocking: true]", async () => {
+  const path = Deno.makeTempFileSync();
+  const sink: Sink & AsyncDisposable = getFileSink(path, {
+    nonBlocking: true,
+  });
+  sink(debug);
+  sink(info);
+  sink(warning);
+  assertEquals(Deno.readTextFileSync(path), "");
+  sink(error);
+  sink(critical);
+  sink(fatal);
+  await sink[Symbol.asyncDispose]();
+  assertEquals(
+    Deno.readTextFileSync(path),
+    `\
+2023-11-14 22:13:20.000 ${tzOffset}:00 [DBG] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [INF] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [WRN] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [ERR] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [CRT] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [FTL] my-app·junk: Hello, 123 & 456!
+`,
+  );
+});
+
+Deno.test("getRotatingFileSink() [nonBlocking: true]", async () => {
+  const path = Deno.makeTempFileSync();
+  const sink: Sink & AsyncDisposable = getRotatingFileSink(path, {
+    maxSize: 150,
+    nonBlocking: true,
+  });
+  sink(debug);
+  sink(info);
+  sink(warning);
+  sink(error);
+  sink(critical);
+  await sink[Symbol.asyncDispose]();
+  assertEquals(
+    Deno.readTextFileSync(path),
+    `\
+2023-11-14 22:13:20.000 ${tzOffset}:00 [CRT] my-app·junk: Hello, 123 & 456!
+`,
+  );
+  assertEquals(
+    Deno.readTextFileSync(`${path}.1`),
+    `\
+2023-11-14 22:13:20.000 ${tzOffset}:00 [WRN] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [ERR] my-app·junk: Hello, 123 & 456!
+`,
+  );
+  assertEquals(
+    Deno.readTextFileSync(`${path}.2`),
+    `\
+2023-11-14 22:13:20.000 ${tzOffset}:00 [DBG] my-app·junk: Hello, 123 & 456!
+2023-11-14 22:13:20.000 ${tzOffset}:00 [INF] my-app·junk: Hello, 123 & 456!
+`,
+  );
+});
+
+Deno.test("getRotatingFileSink() [rollover failure]", async (t) => {
+  for (const nonBlocking of [false, true]) {
+    await t.step(`nonBlocking: ${nonBlocking}`, async () => {
+      const path = Deno.makeTempFileSync();
+      // A non-empty directory in the way makes the rollover fail:
+      Deno.mkdirSync(`${path}.1`);
+      Deno.writeTextFileSync(join(`${path}.1`, "file"), "");
+      try {
+        const sink = getRotatingFileSink(path, {
+          maxSize: 150,
+          maxFiles: 1,
+          nonBlocking,
+        });
+        for (const record of [debug, info, warning, error, critical]) {
+          try {
+            sink(record);
+          } catch {
+            // The synchronous sink throws the error of the rollover instead
+            // of writing the record.
+          }
+        }
+        if (Symbol.asyncDispose in sink) await sink[Symbol.asyncDispose]();
+        else sink[Symbol.dispose]();
+        const levels = nonBlocking
+          ? ["DBG", "INF", "WRN", "ERR", "CRT"]
+          : ["DBG", "INF", "ERR", "CRT"];
+        // Later log records are still written to the file:
+        assertEquals(
+          Deno.readTextFileSync(path),
+          levels.map((level) =>
+            `2023-11-14 22:13:20.000 ${tzOffset}:00 [${level}] my-app·junk: ` +
+            "Hello, 123 & 456!\n"
+          ).join(""),
+        );
+      } finally {
+        Deno.removeSync(`${path}.1`, { recursive: true });
+      }
+    });
+  }
+});
+
+Deno.test("getRotatingFileSink() [interval]", () => {
+  const dirPath = Deno.makeTempDirSync();
+  const path = join(dirPath, "app.log");
+  const day = 24 * 60 * 60 * 1000;
+  const sink: Sink & Disposable = getRotatingFileSink(path, {
+    interval: "daily",
+    utc: true,
+    maxFiles: 2,
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  sink({ ...info, message: ["a"] });
+  sink({ ...info, message: ["b"], timestamp: info.timestamp + 1000 });
+  sink({ ...info, message: ["c"], timestamp: info.timestamp + day });
+  sink({ ...info, message: ["d"], timestamp: info.timestamp + 2 * day });
+  sink({ ...info, message: ["e"], timestamp: info.timestamp + 3 * day });
+  sink[Symbol.dispose]();
+  assertEquals(
+    [...Deno.readDirSync(dirPath)].map((e) => e.name).sort(),
+    ["app-2023-11-15.log", "app-2023-11-16.log", "app.log"],
+  );
+  assertEquals(Deno.readTextFileSync(path), "e\n");
+  assertEquals(
+    Deno.readTextFileSync(join(dirPath, "app-2023-11-15.log")),
+    "c\n",
+  );
+  assertEquals(
+    Deno.readTextFileSync(join(dirPath, "app-2023-11-16.log")),
+    "d\n",
+  );
+
+  const mtime = new Date(info.timestamp + 3 * day);
+  Deno.utimeSync(path, mtime, mtime);
+  const sink2: Sink & Disposable = getRotatingFileSink(path, {
+    interval: (ts) => ts - ts % day,
+    maxSize: 4,
+    filenamePattern: "{base}.{YYYY}{MM}{DD}.{index}{ext}",
+    utc: true,
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  sink2({ ...info, message: ["f"], timestamp: info.timestamp + 3 * day });
+  sink2({ ...info, message: ["g"], timestamp: info.timestamp + 3 * day });
+  sink2({ ...info, message: ["h"], timestamp: info.timestamp + 4 * day });
+  sink2[Symbol.dispose]();
+  assertEquals(
+    Deno.readTextFileSync(join(dirPath, "app.20231117.1.log")),
+    "e\nf\n",
+  );
+  assertEquals(
+    Deno.readTextFileSync(join(dirPath, "app.20231117.2.log")),
+    "g\n",
+  );
+  assertEquals(Deno.readTextFileSync(path), "h\n");
+});
+
+Deno.test("getRotatingFileSink() [maxAge]", () => {
+  const dirPath = Deno.makeTempDirSync();
+  const path = join(dirPath, "app.log");
+  Deno.writeTextFileSync(`${path}.1`, "old\n");
+  Deno.writeTextFileSync(`${path}.2`, "older\n");
+  const now = new Date();
+  Deno.utimeSync(`${path}.2`, now, new Date(now.getTime() - 60 * 60 * 1000));
+  const sink: Sink & Disposable = getRotatingFileSink(path, {
+    maxSize: 3,
+    maxAge: 30 * 60 * 1000,
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  sink({ ...info, message: ["a"] });
+  sink({ ...info, message: ["b"] });
+  sink[Symbol.dispose]();
+  assertEquals(
+    [...Deno.readDirSync(dirPath)].map((e) => e.name).sort(),
+    ["app.log", "app.log.1", "app.log.2"],
+  );
+  assertEquals(Deno.readTextFileSync(path), "b\n");
+  assertEquals(Deno.readTextFileSync(`${path}.1`), "a\n");
+  assertEquals(Deno.readTextFileSync(`${path}.2`), "old\n");
+});
+
+Deno.test("getRotatingFileSink() [compress]", async () => {
+  const dirPath = Deno.makeTempDirSync();
+  const path = join(dirPath, "app.log");
+  const sink: Sink & AsyncDisposable = getRotatingFileSink(path, {
+    maxSize: 3,
+    compress: "gzip",
+    nonBlocking: true,
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  sink({ ...info, message: ["a"] });
+  sink({ ...info, message: ["b"] });
+  sink({ ...info, message: ["c"] });
+  await sink[Symbol.asyncDispose]();
+  assertEquals(
+    [...Deno.readDirSync(dirPath)].map((e) => e.name).sort(),
+    ["app.log", "app.log.1.gz", "app.log.2.gz"],
+  );
+  assertEquals(Deno.readTextFileSync(path), "c\n");
+  assertEquals(await decompress(`${path}.1.gz`), "b\n");
+  assertEquals(await decompress(`${path}.2.gz`), "a\n");
+
+  const sink2: Sink & AsyncDisposable = getRotatingFileSink(path, {
+    maxSize: 3,
+    compress: "gzip",
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  sink2({ ...info, message: ["d"] });
+  // Waits for the compression to finish:
+  await sink2[Symbol.asyncDispose]();
+  assertEquals(
+    [...Deno.readDirSync(dirPath)].map((e) => e.name).sort(),
+    ["app.log", "app.log.1.gz", "app.log.2.gz", "app.log.3.gz"],
+  );
+  assertEquals(await decompress(`${path}.1.gz`), "c\n");
+  assertEquals(await decompress(`${path}.2.gz`), "b\n");
+  assertEquals(await decompress(`${path}.3.gz`), "a\n");
+
+  // Rotates more times than maxFiles:
+  const dirPath2 = Deno.makeTempDirSync();
+  const path2 = join(dirPath2, "app.log");
+  const sink3: Sink & AsyncDisposable = getRotatingFileSink(path2, {
+    maxSize: 3,
+    maxFiles: 1,
+    compress: "gzip",
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  for (const message of ["a", "b", "c", "d", "e", "f"]) {
+    sink3({ ...info, message: [message] });
+  }
+  // Waits for the compression to finish:
+  await sink3[Symbol.asyncDispose]();
+  assertEquals(
+    [...Deno.readDirSync(dirPath2)].map((e) => e.name).sort(),
+    ["app.log", "app.log.1.gz"],
+  );
+  assertEquals(Deno.readTextFileSync(path2), "f\n");
+  assertEquals(await decompress(`${path2}.1.gz`), "e\n");
+});
+
+Deno.test("getRotatingFileSink() [compress, interval]", async () => {
+  const dirPath = Deno.makeTempDirSync();
+  const path = join(dirPath, "app.log");
+  const day = 24 * 60 * 60 * 1000;
+  const sink: Sink & AsyncDisposable = getRotatingFileSink(path, {
+    interval: "daily",
+    utc: true,
+    maxFiles: 3,
+    compress: "gzip",
+    formatter: (record) => `${record.message[0]}\n`,
+  });
+  const list = () => [...Deno.readDirSync(dirPath)].map((e) => e.name).sort();
+  sink({ ...info, message: ["a"] });
+  sink({ ...info, message: ["b"], timestamp: info.timestamp + day });
+  while (list().includes("app-2023-11-14.log")) await delay(10);
+  sink({ ...info, message: ["c"], timestamp: info.timestamp + day });
+  sink({ ...info, message: ["d"], timestamp: info.timestamp + 2 * day });
+  // The rotated file still being compressed is not counted twice:
+  sink({ ...info, message: ["e"], timestamp: info.timestamp + 3 * day });
+  await sink[Symbol.asyncDispose]();
+  assertEquals(list(), [
+    "app-2023-11-14.log.gz",
+    "app-2023-11-15.log.gz",
+    "app-2023-11-16.log.gz",
+    "app.log",
+  ]);
+  assertEquals(
+    await decompress(join(dirPath, "app-2023-11-14.log.gz")),
+    "a\n",
+  );
+  assertEquals(
+    await decompress(join(dirPath, "app-2023-11-15.log.gz")),
+    "b\nc\n",
+  );
+});
+
+async function decompress(path: string): Promise<string> {
+  const file = await Deno.open(path);
+  const stream = file.readable
+    .pipeThrough(new DecompressionStream("gzip"))
+    .pipeThrough(new TextDecoderStream());
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
 // cSpell: ignore filesink
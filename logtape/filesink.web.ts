@@ -1,4 +1,4 @@
-import type { RotatingFileSinkDriver } from "./sink.ts";
+import type { AsyncRotatingFileSinkDriver } from "./sink.ts";
 
 function notImplemented<T>(): T {
   throw new Error("File sink is not available in the browser.");
@@ -7,11 +7,17 @@ function notImplemented<T>(): T {
 /**
  * A browser-specific file sink driver.  All methods throw an error.
  */
-export const webDriver: RotatingFileSinkDriver<void> = {
+export const webDriver: AsyncRotatingFileSinkDriver<void> = {
   openSync: notImplemented,
   writeSync: notImplemented,
   flushSync: notImplemented,
   closeSync: notImplemented,
   statSync: notImplemented,
   renameSync: notImplemented,
+  readdirSync: notImplemented,
+  unlinkSync: notImplemented,
+  readChunks: notImplemented,
+  write: notImplemented,
+  flush: notImplemented,
+  close: notImplemented,
 };
@@ -2,9 +2,27 @@ import { assert } from "@std/assert/assert";
 import { assertFalse } from "@std/assert/assert-false";
 import { assertStrictEquals } from "@std/assert/assert-strict-equals";
 import { assertThrows } from "@std/assert/assert-throws";
-import { type Filter, getLevelFilter, toFilter } from "./filter.ts";
-import { critical, debug, error, fatal, info, warning } from "./fixtures.ts";
+import { assertEquals } from "@std/assert/assert-equals";
+import { delay } from "@std/async/delay";
+import { configure, reset } from "./config.ts";
+import {
+  type Filter,
+  getLevelFilter,
+  getRateLimitFilter,
+  getSamplingFilter,
+  toFilter,
+} from "./filter.ts";
+import {
+  critical,
+  debug,
+  error,
+  fatal,
+  info,
+  trace,
+  warning,
+} from "./fixtures.ts";
 import type { LogLevel } from "./level.ts";
+import type { LogRecord } from "./record.ts";
 
 Deno.test("getLevelFilter()", () => {
   const noneFilter = getLevelFilter(null);
@@ -14,6 +32,7 @@ Deno.test("getLevelFilter()", () => {
   assertFalse(noneFilter(warning));
   assertFalse(noneFilter(info));
   assertFalse(noneFilter(debug));
+  assertFalse(noneFilter(trace));
 
   const fatalFilter = getLevelFilter("fatal");
   assert(fatalFilter(fatal));
@@ -22,6 +41,7 @@ Deno.test("getLevelFilter()", () => {
   assertFalse(fatalFilter(warning));
   assertFalse(fatalFilter(info));
   assertFalse(fatalFilter(debug));
+  assertFalse(fatalFilter(trace));
 
   const criticalFilter = getLevelFilter("critical");
   assert(criticalFilter(fatal));
@@ -30,6 +50,7 @@ Deno.test("getLevelFilter()", () => {
   assertFalse(criticalFilter(warning));
   assertFalse(criticalFilter(info));
   assertFalse(criticalFilter(debug));
+  assertFalse(criticalFilter(trace));
 
   const errorFilter = getLevelFilter("error");
   assert(errorFilter(fatal));
@@ -38,6 +59,7 @@ Deno.test("getLevelFilter()", () => {
   assertFalse(errorFilter(warning));
   assertFalse(errorFilter(info));
   assertFalse(errorFilter(debug));
+  assertFalse(errorFilter(trace));
 
   const warningFilter = getLevelFilter("warning");
   assert(warningFilter(fatal));
@@ -46,6 +68,7 @@ Deno.test("getLevelFilter()", () => {
   assert(warningFilter(warning));
   assertFalse(warningFilter(info));
   assertFalse(warningFilter(debug));
+  assertFalse(warningFilter(trace));
 
   const infoFilter = getLevelFilter("info");
   assert(infoFilter(fatal));
@@ -54,6 +77,7 @@ Deno.test("getLevelFilter()", () => {
   assert(infoFilter(warning));
   assert(infoFilter(info));
   assertFalse(infoFilter(debug));
+  assertFalse(infoFilter(trace));
 
   const debugFilter = getLevelFilter("debug");
   assert(debugFilter(fatal));
@@ -62,6 +86,16 @@ Deno.test("getLevelFilter()", () => {
   assert(debugFilter(warning));
   assert(debugFilter(info));
   assert(debugFilter(debug));
+  assertFalse(debugFilter(trace));
+
+  const traceFilter = getLevelFilter("trace");
+  assert(traceFilter(fatal));
+  assert(traceFilter(critical));
+  assert(traceFilter(error));
+  assert(traceFilter(warning));
+  assert(traceFilter(info));
+  assert(traceFilter(debug));
+  assert(traceFilter(trace));
 
   assertThrows(
     () => getLevelFilter("invalid" as LogLevel),
@@ -79,3 +113,126 @@ Deno.test("toFilter()", () => {
   assert(infoFilter(info));
   assert(infoFilter(warning));
 });
+
+Deno.test("getSamplingFilter()", () => {
+  const none = getSamplingFilter(0);
+  const all = getSamplingFilter(1);
+  for (let i = 0; i < 100; i++) {
+    assertFalse(none(info));
+    assert(all(info));
+  }
+
+  const half = getSamplingFilter(0.5);
+  let accepted = 0;
+  for (let i = 0; i < 1000; i++) if (half(info)) accepted++;
+  assert(accepted > 350 && accepted < 650, `accepted: ${accepted}`);
+
+  const keyed = getSamplingFilter(0.5, { key: "traceId" });
+  let keptTraces = 0;
+  for (let i = 0; i < 200; i++) {
+    const record = { ...info, properties: { traceId: `trace-${i}` } };
+    const kept = keyed(record);
+    for (let j = 0; j < 5; j++) assertStrictEquals(keyed(record), kept);
+    if (kept) keptTraces++;
+  }
+  assert(keptTraces > 60 && keptTraces < 140, `kept: ${keptTraces}`);
+
+  const byFunction = getSamplingFilter(0.5, {
+    key: (record) => record.category.join("."),
+  });
+  const kept = byFunction(info);
+  for (let i = 0; i < 10; i++) assertStrictEquals(byFunction(info), kept);
+
+  assertThrows(
+    () => getSamplingFilter(1.5),
+    RangeError,
+    "The sampling rate must be between 0 and 1: 1.5.",
+  );
+});
+
+Deno.test("getRateLimitFilter()", async (t) => {
+  await t.step("category", () => {
+    const filter = getRateLimitFilter({ limit: 3, interval: 60000 });
+    const results = Array.from({ length: 5 }, () => filter(info));
+    assertEquals(results, [true, true, true, false, false]);
+    assert(filter({ ...info, category: ["other"] }));
+  });
+
+  await t.step("template", () => {
+    const filter = getRateLimitFilter({
+      limit: 1,
+      interval: 60000,
+      key: "template",
+    });
+    assert(filter(info));
+    assertFalse(filter(info));
+    assert(filter({ ...info, rawMessage: "Another message" }));
+    assertFalse(filter({ ...info, rawMessage: "Another message" }));
+  });
+
+  await t.step("refill", async () => {
+    const filter = getRateLimitFilter({ limit: 1, interval: 50, burst: 2 });
+    assert(filter(info));
+    assert(filter(info));
+    assertFalse(filter(info));
+    await delay(80);
+    assert(filter(info));
+  });
+
+  await t.step("maxBuckets", () => {
+    const filter = getRateLimitFilter({
+      limit: 1,
+      interval: 60000,
+      maxBuckets: 2,
+    });
+    assert(filter(info));
+    assertFalse(filter(info));
+    assert(filter({ ...info, category: ["b"] }));
+    assert(filter({ ...info, category: ["c"] }));
+    // The least recently used bucket is discarded:
+    assert(filter(info));
+    assertFalse(filter({ ...info, category: ["c"] }));
+  });
+
+  await t.step("summarize", async () => {
+    const metaRecords: LogRecord[] = [];
+    const filter = getRateLimitFilter({
+      limit: 1,
+      interval: 50,
+      summarize: true,
+    });
+    await configure({
+      sinks: { meta: metaRecords.push.bind(metaRecords) },
+      filters: { rateLimit: filter },
+      loggers: [
+        { category: ["logtape", "meta"], sinks: ["meta"], level: "warning" },
+      ],
+    });
+    try {
+      assert(filter(info));
+      for (let i = 0; i < 5; i++) assertFalse(filter(info));
+      assertEquals(metaRecords, []);
+      await delay(80);
+      assertEquals(metaRecords.length, 1);
+      assertEquals(metaRecords[0].level, "warning");
+      assertEquals(
+        metaRecords[0].rawMessage,
+        "Suppressed {count} similar log records in the last {interval} ms.",
+      );
+      assertEquals(metaRecords[0].properties, {
+        count: 5,
+        interval: 50,
+        category: ["my-app", "junk"],
+        rawMessage: "Hello, {a} & {b}!",
+      });
+    } finally {
+      await reset();
+    }
+  });
+
+  assertThrows(
+    () => getRateLimitFilter({ limit: 0 }),
+    RangeError,
+    "The limit must be a positive number: 0.",
+  );
+});
@@ -1,5 +1,8 @@
-import type { LogLevel } from "./level.ts";
+import { metaLoggerCategory } from "./constants.ts";
+import { getLogLevelDefinition, type LogLevel } from "./level.ts";
+import { LoggerImpl } from "./logger/index.ts";
 import type { LogRecord } from "./record.ts";
+import { getTemplate, unrefTimer } from "./utils.ts";
 
 /**
  * A filter is a function that accepts a log record and returns `true` if the
@@ -27,40 +30,287 @@ export function toFilter(filter: FilterLike): Filter {
   return getLevelFilter(filter);
 }
 
-const levelsOrder = [
-  "fatal",
-  "critical",
-  "error",
-  "warning",
-  "info",
-  "debug",
-];
-
 /**
- * Returns a filter that accepts log records with the specified level.
+ * Returns a filter that accepts log records with the specified level or
+ * more severe levels.
  *
  * @param level The level to filter by.  If `null`, the filter will reject all
  *              records.
  * @returns The filter.
+ * @throws {TypeError} If the level is invalid.
  */
 export function getLevelFilter(level: LogLevel | null): Filter {
   if (level == null) return () => false;
-  if (level === "debug") return () => true;
+  const { severity } = getLogLevelDefinition(level);
+  return (record: LogRecord) =>
+    getLogLevelDefinition(record.level).severity >= severity;
+}
 
-  const levelIndex = getLevelIndex(level);
+/**
+ * The options for {@link getSamplingFilter}.
+ * @since 0.11.0
+ */
+export interface SamplingFilterOptions {
+  /**
+   * The key to sample log records by.  If given, the sampling becomes
+   * deterministic: log records with the same key are either all accepted or
+   * all rejected, e.g., all the log records of a request if the key is its
+   * trace ID.  This can be either the name of a property, or a function that
+   * returns the key of a log record.
+   *
+   * Log records without the key (i.e., `undefined` or `null`) are sampled
+   * randomly.
+   */
+  key?: string | ((record: LogRecord) => unknown);
+}
 
+/**
+ * Returns a filter that accepts only a fraction of log records, which is
+ * useful for reducing the volume of verbose logs.
+ *
+ * @example Keep 1% of the requests as a whole
+ * ```typescript
+ * const filter = getSamplingFilter(0.01, { key: "traceId" });
+ * ```
+ *
+ * @param rate The fraction of log records to accept, between 0 and 1.
+ * @param options The options for the filter.
+ * @returns The filter.
+ * @throws {RangeError} If the rate is not between 0 and 1.
+ * @since 0.11.0
+ */
+export function getSamplingFilter(
+  rate: number,
+  options: SamplingFilterOptions = {},
+): Filter {
+  if (!(rate >= 0 && rate <= 1)) {
+    throw new RangeError(`The sampling rate must be between 0 and 1: ${rate}.`);
+  }
+  const { key } = options;
+  const getKey = key == null
+    ? null
+    : typeof key === "function"
+    ? key
+    : (record: LogRecord) =>
+      (record.properties as Record<string, unknown> | undefined)?.[key];
   return (record: LogRecord) => {
-    const recordLevelIndex = getLevelIndex(record.level);
-    return levelIndex >= recordLevelIndex;
+    const value = getKey?.(record);
+    if (value == null) return Math.random() < rate;
+    // Maps the hash of the key to [0, 1):
+    return fnv1a(String(value)) / 0x100000000 < rate;
   };
 }
 
-const levelsOrderMap = new Map(
-  levelsOrder.map((level, index) => [level, index]),
-);
+/**
+ * The options for {@link getRateLimitFilter}.
+ * @since 0.11.0
+ */
+export interface RateLimitFilterOptions {
+  /**
+   * The number of log records to accept per {@link interval} on average.
+   */
+  limit: number;
+
+  /**
+   * The length of the window in milliseconds.  Defaults to `1000`.
+   */
+  interval?: number;
+
+  /**
+   * The maximum number of log records to accept at once, i.e., the capacity
+   * of the token bucket.  Defaults to {@link limit}.
+   */
+  burst?: number;
+
+  /**
+   * How to group log records into separate token buckets.  This can be one of
+   * the following:
+   *
+   * - `"category"`: Log records of the same category share a bucket.
+   * - `"template"`: Log records of the same category and the same message
+   *   template (i.e., {@link LogRecord.rawMessage}) share a bucket.
+   *
+   * Alternatively, this can be a function that returns the key of
+   * the bucket for a log record.
+   *
+   * Defaults to `"category"`.
+   */
+  key?: "category" | "template" | ((record: LogRecord) => string);
+
+  /**
+   * Whether to log a summary to the meta logger when a window closes, if
+   * there are suppressed log records in the window, e.g., "Suppressed 1234
+   * similar log records."  Turned off by default.
+   */
+  summarize?: boolean;
+
+  /**
+   * The maximum number of buckets.  When it is exceeded, the least recently
+   * used bucket is discarded.  Buckets that have been refilled to capacity
+   * are discarded regardless, as they are no different from new ones.
+   * Defaults to `1000`.
+   */
+  maxBuckets?: number;
+}
 
-function getLevelIndex(level: LogLevel): number {
-  const index = levelsOrderMap.get(level);
-  if (index === undefined) throw new TypeError(`Invalid log level: ${level}.`);
-  return index;
+/**
+ * Returns a filter that limits the rate of log records with token buckets.
+ * Each bucket holds up to {@link RateLimitFilterOptions.burst} tokens and is
+ * refilled at {@link RateLimitFilterOptions.limit} tokens per
+ * {@link RateLimitFilterOptions.interval}.  A log record consumes a token,
+ * and is rejected if its bucket is empty.
+ *
+ * The returned filter is disposable; dispose it to cancel the pending
+ * summaries.  It is disposed automatically when given to `configure()`.
+ *
+ * @example Accept up to 10 records per second per message template
+ * ```typescript
+ * const filter = getRateLimitFilter({
+ *   limit: 10,
+ *   key: "template",
+ *   summarize: true,
+ * });
+ * ```
+ *
+ * @param options The options for the filter.
+ * @returns The filter.
+ * @throws {RangeError} If the limit, interval, burst, or maximum number of
+ *                     buckets is not positive.
+ * @since 0.11.0
+ */
+export function getRateLimitFilter(
+  options: RateLimitFilterOptions,
+): Filter & Disposable {
+  const {
+    limit,
+    interval = 1000,
+    burst = limit,
+    summarize = false,
+    maxBuckets = 1000,
+  } = options;
+  for (
+    const [name, value] of [
+      ["limit", limit],
+      ["interval", interval],
+      ["maxBuckets", maxBuckets],
+    ]
+  ) {
+    if (!(typeof value === "number" && value > 0)) {
+      throw new RangeError(`The ${name} must be a positive number: ${value}.`);
+    }
+  }
+  if (!(burst >= 1)) {
+    throw new RangeError(`The burst must be at least 1: ${burst}.`);
+  }
+  const key = options.key ?? "category";
+  const getKey = typeof key === "function"
+    ? key
+    : (record: LogRecord) =>
+      JSON.stringify(
+        key === "template"
+          ? [record.category, getTemplate(record.rawMessage)]
+          : record.category,
+      );
+  const refillRate = limit / interval;
+  interface Bucket {
+    tokens: number;
+    updated: number;
+    suppressed: number;
+    timer?: ReturnType<typeof setTimeout>;
+    record?: LogRecord;
+  }
+  // Maps bucket keys to buckets in the least recently used order:
+  const buckets = new Map<string, Bucket>();
+  let lastSweep = Date.now();
+
+  const flush = (bucket: Bucket) => {
+    const { record } = bucket;
+    if (bucket.timer != null) clearTimeout(bucket.timer);
+    delete bucket.timer;
+    delete bucket.record;
+    if (record == null || bucket.suppressed < 1) return;
+    const count = bucket.suppressed;
+    bucket.suppressed = 0;
+    LoggerImpl.getLogger(metaLoggerCategory).warn(
+      "Suppressed {count} similar log records in the last {interval} ms.",
+      {
+        count,
+        interval,
+        category: record.category,
+        rawMessage: getTemplate(record.rawMessage),
+      },
+    );
+  };
+
+  // Discards the buckets that have been refilled to capacity and have no
+  // pending summary:
+  const sweep = (now: number) => {
+    lastSweep = now;
+    for (const [bucketKey, bucket] of buckets) {
+      if (
+        bucket.timer == null &&
+        bucket.tokens + (now - bucket.updated) * refillRate >= burst
+      ) {
+        buckets.delete(bucketKey);
+      }
+    }
+  };
+
+  const filter: Filter & Disposable = (record: LogRecord) => {
+    const bucketKey = getKey(record);
+    const now = Date.now();
+    if (now - lastSweep >= interval) sweep(now);
+    let bucket = buckets.get(bucketKey);
+    if (bucket == null) {
+      bucket = { tokens: burst, updated: now, suppressed: 0 };
+      if (buckets.size >= maxBuckets) {
+        for (const [oldestKey, oldest] of buckets) {
+          buckets.delete(oldestKey);
+          flush(oldest);
+          break;
+        }
+      }
+    } else {
+      buckets.delete(bucketKey);
+      bucket.tokens = Math.min(
+        burst,
+        bucket.tokens + (now - bucket.updated) * refillRate,
+      );
+      bucket.updated = now;
+    }
+    buckets.set(bucketKey, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens--;
+      return true;
+    }
+    bucket.suppressed++;
+    if (summarize && bucket.timer == null) {
+      const suppressedBucket = bucket;
+      bucket.record = record;
+      bucket.timer = setTimeout(() => flush(suppressedBucket), interval);
+      unrefTimer(bucket.timer);
+    }
+    return false;
+  };
+  filter[Symbol.dispose] = (): void => {
+    for (const bucket of buckets.values()) {
+      if (bucket.timer != null) clearTimeout(bucket.timer);
+    }
+    buckets.clear();
+  };
+  return filter;
+}
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string.
+ * @param str The string to hash.
+ * @returns The hash as an unsigned 32-bit integer.
+ */
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
 }
@@ -9,6 +9,11 @@ export const info: LogRecord<object> = {
   properties: {},
 };
 
+export const trace: LogRecord<object> = {
+  ...info,
+  level: "trace",
+};
+
 export const debug: LogRecord<object> = {
   ...info,
   level: "debug",
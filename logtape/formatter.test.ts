@@ -6,9 +6,16 @@ import {
   type FormattedValues,
   getAnsiColorFormatter,
   getDefaultConsoleFormatter,
+  getJsonLinesFormatter,
   getTextFormatter,
+  jsonLinesFormatter,
   tzOffset,
 } from "./formatter.ts";
+import type { LogRecord } from "./record.ts";
+
+function templateLiteral(tpl: TemplateStringsArray, ..._: unknown[]) {
+  return tpl;
+}
 
 Deno.test(`getTextFormatter()`, () => {
   assertEquals(
@@ -146,6 +153,32 @@ Deno.test(`defaultTextFormatter()`, () => {
   );
 });
 
+Deno.test(`getTextFormatter() [Error]`, () => {
+  const error = new AggregateError(
+    [new RangeError("Too large")],
+    "Failed",
+    { cause: new Error("Cause") },
+  );
+  Object.assign(error, { code: "E_FAILED" });
+  error.stack = "AggregateError: Failed\n" +
+    "    at main (file:///app/main.ts:10:5)\n" +
+    "    at file:///app/main.ts:20:1";
+  (error.cause as Error).stack = "Error: Cause\n" +
+    "    at cause (file:///app/cause.ts:1:2)";
+  error.errors[0].stack = "";
+  const formatter = getTextFormatter({ timestamp: "rfc3339" });
+  assertEquals(
+    formatter({ ...info, message: ["Failed!"], properties: { error } }),
+    "2023-11-14T22:13:20.000Z [INF] my-app·junk: Failed! " +
+      "{ error: AggregateError: Failed\n" +
+      "    at main (file:///app/main.ts:10:5)\n" +
+      "    at file:///app/main.ts:20:1 { code: `E_FAILED`, " +
+      "[cause]: Error: Cause\n" +
+      "      at cause (file:///app/cause.ts:1:2), " +
+      "[errors]: [RangeError: Too large] } }\n",
+  );
+});
+
 Deno.test(`getAnsiColorFormatter()`, () => {
   assertEquals(
     getAnsiColorFormatter()(info),
@@ -350,3 +383,173 @@ Deno.test(`getDefaultConsoleFormatter()`, () => {
     ],
   );
 });
+
+Deno.test(`getJsonLinesFormatter()`, () => {
+  const record: LogRecord = {
+    ...info,
+    properties: { a: 123, b: 456 },
+  };
+  assertEquals(
+    getJsonLinesFormatter()(record),
+    `{"@timestamp":"2023-11-14T22:13:20.000Z","level":"info",` +
+      `"logger":"my-app.junk","message":"Hello, 123 & 456!",` +
+      `"rawMessage":"Hello, {a} & {b}!","properties":{"a":123,"b":456}}\n`,
+  );
+  assertEquals(jsonLinesFormatter(record), getJsonLinesFormatter()(record));
+
+  assertEquals(
+    JSON.parse(
+      getJsonLinesFormatter({
+        categorySeparator: "/",
+        properties: "flatten",
+      })({ ...record, properties: { a: 1, level: "x" } }),
+    ),
+    {
+      "@timestamp": "2023-11-14T22:13:20.000Z",
+      level: "info",
+      logger: "my-app/junk",
+      message: "Hello, 123 & 456!",
+      rawMessage: "Hello, {a} & {b}!",
+      a: 1,
+      properties: { level: "x" },
+    },
+  );
+  assertEquals(
+    JSON.parse(
+      getJsonLinesFormatter({
+        properties: "flatten",
+      })({
+        ...record,
+        properties: { constructor: 1, toString: 2, properties: 3 },
+      }),
+    ),
+    {
+      "@timestamp": "2023-11-14T22:13:20.000Z",
+      level: "info",
+      logger: "my-app.junk",
+      message: "Hello, 123 & 456!",
+      rawMessage: "Hello, {a} & {b}!",
+      constructor: 1,
+      toString: 2,
+      properties: { properties: 3 },
+    },
+  );
+  assertEquals(
+    JSON.parse(
+      getJsonLinesFormatter({ propertiesKey: "props" })(record),
+    ).props,
+    { a: 123, b: 456 },
+  );
+  assertEquals(
+    JSON.parse(
+      getJsonLinesFormatter()({
+        ...record,
+        message: ["Hello, ", "world", " & ", { foo: 1n }, "!"],
+        rawMessage: templateLiteral`Hello, ${null} & ${null}!`,
+        properties: undefined,
+      }),
+    ),
+    {
+      "@timestamp": "2023-11-14T22:13:20.000Z",
+      level: "info",
+      logger: "my-app.junk",
+      message: 'Hello, world & {"foo":"1"}!',
+      rawMessage: ["Hello, ", " & ", "!"],
+    },
+  );
+
+  const circular: Record<string, unknown> = { name: "circular" };
+  circular.self = circular;
+  const shared = { x: 1 };
+  const cause = new Error("Cause");
+  const error = new TypeError("Oops", { cause });
+  const json = JSON.parse(
+    getJsonLinesFormatter()({
+      ...record,
+      properties: {
+        circular,
+        shared: [shared, shared],
+        error,
+        bigint: 123n,
+        map: new Map<unknown, unknown>([["a", 1], [2, new Set([1, 2])]]),
+        date: new Date(1700000000000),
+        fn: () => {},
+        bytes: new Uint8Array([1, 2, 3]),
+      },
+    }),
+  );
+  assertEquals(json.properties.circular, {
+    name: "circular",
+    self: "[Circular]",
+  });
+  assertEquals(json.properties.shared, [{ x: 1 }, { x: 1 }]);
+  assertEquals(json.properties.error.name, "TypeError");
+  assertEquals(json.properties.error.message, "Oops");
+  assertEquals(json.properties.error.stack, error.stack);
+  assertEquals(json.properties.error.cause.message, "Cause");
+  assertEquals(
+    json.properties.error.frames[0].file,
+    new URL(import.meta.url).href,
+  );
+  assertEquals(json.properties.error.cause.frames.length > 0, true);
+  assertEquals(json.properties.bigint, "123");
+  assertEquals(json.properties.map, { a: 1, 2: [1, 2] });
+  assertEquals(json.properties.date, "2023-11-14T22:13:20.000Z");
+  assertEquals("fn" in json.properties, false);
+  assertEquals(json.properties.bytes, [1, 2, 3]);
+
+  class Secret {
+    constructor(readonly value: string) {}
+
+    [Symbol.for("logtape.inspect")]() {
+      return "[REDACTED]";
+    }
+  }
+  class Money {
+    constructor(readonly amount: number, readonly currency: string) {}
+  }
+  const customJson = JSON.parse(
+    getJsonLinesFormatter({
+      inspectors: new Map([
+        [Money, (m: Money) => ({ amount: m.amount, currency: m.currency })],
+      ]),
+    })({
+      ...record,
+      properties: { secret: new Secret("pw"), price: new Money(10, "USD") },
+    }),
+  );
+  assertEquals(customJson.properties, {
+    secret: "[REDACTED]",
+    price: { amount: 10, currency: "USD" },
+  });
+  const trace = {
+    trace_id: "4bf92f3577b34da6a3ce929d0e0e4736",
+    span_id: "00f067aa0ba902b7",
+    trace_flags: "01",
+  };
+  const traceRecord = { ...record, properties: { a: 1, ...trace } };
+  assertEquals(
+    getJsonLinesFormatter()(traceRecord),
+    `{"@timestamp":"2023-11-14T22:13:20.000Z","level":"info",` +
+      `"logger":"my-app.junk","message":"Hello, 123 & 456!",` +
+      `"rawMessage":"Hello, {a} & {b}!",` +
+      `"trace_id":"4bf92f3577b34da6a3ce929d0e0e4736",` +
+      `"span_id":"00f067aa0ba902b7","trace_flags":"01",` +
+      `"properties":{"a":1}}\n`,
+  );
+  assertEquals(
+    JSON.parse(
+      getJsonLinesFormatter({ properties: "flatten" })(traceRecord),
+    ),
+    {
+      "@timestamp": "2023-11-14T22:13:20.000Z",
+      level: "info",
+      logger: "my-app.junk",
+      message: "Hello, 123 & 456!",
+      rawMessage: "Hello, {a} & {b}!",
+      a: 1,
+      ...trace,
+    },
+  );
+  assertEquals(traceRecord.properties, { a: 1, ...trace });
+});
@@ -1,6 +1,13 @@
 import type { CategoryList } from "./category.ts";
-import { inspect, type InspectConfig } from "./inspect.ts";
-import type { LogLevel } from "./level.ts";
+import { serializeError } from "./error.ts";
+import {
+  type CustomInspectors,
+  getCustomInspection,
+  getNodeCustomInspection,
+  inspect,
+  type InspectConfig,
+} from "./inspect.ts";
+import { getLogLevelDefinition, type LogLevel } from "./level.ts";
 import type { LogRecord } from "./record.ts";
 import { getFunction } from "./utils.ts";
 
@@ -13,18 +20,6 @@ import { getFunction } from "./utils.ts";
  */
 export type TextFormatter = (record: LogRecord) => string;
 
-/**
- * The severity level abbreviations.
- */
-const levelAbbreviations: Record<LogLevel, string> = {
-  "debug": "DBG",
-  "info": "INF",
-  "warning": "WRN",
-  "error": "ERR",
-  "critical": "CRT",
-  "fatal": "FTL",
-};
-
 /**
  * The formatted values for a log record.
  * @since 0.6.0
@@ -239,8 +234,11 @@ const textFormatterLevelsMap = new Map<
   TextFormatterOptions["level"],
   (level: LogLevel) => string
 >([
-  ["ABBR", (level) => levelAbbreviations[level]],
-  ["abbr", (level) => levelAbbreviations[level].toLowerCase()],
+  ["ABBR", (level) => getLogLevelDefinition(level).abbreviation],
+  [
+    "abbr",
+    (level) => getLogLevelDefinition(level).abbreviation.toLowerCase(),
+  ],
   ["FULL", (level) => level.toUpperCase()],
   ["full", (level) => level],
   ["L", (level) => level.charAt(0).toUpperCase()],
@@ -287,7 +285,8 @@ export function getTextFormatter(
   const categorySeparator = typeof optionsCategory === "function"
     ? optionsCategory
     : (category: CategoryList) => category.join(optionsCategory ?? "·");
-  const valueRenderer = value ?? inspect;
+  const valueRenderer = value ??
+    ((value: unknown) => inspect(value, inspectConfig));
 
   const formatter = format ??
     (({ timestamp, level, category, message, record }: FormattedValues) =>
@@ -377,15 +376,6 @@ const ansiStyles: Record<AnsiStyle, string> = {
   strikethrough: "\x1b[9m",
 };
 
-const defaultLevelColors: Record<LogLevel, AnsiColor | null> = {
-  debug: "blue",
-  info: "green",
-  warning: "yellow",
-  error: "red",
-  critical: "darkorange",
-  fatal: "magenta",
-};
-
 /**
  * The various options for the ANSI color formatter.
  * @since 0.6.0
@@ -443,8 +433,11 @@ export interface AnsiColorFormatterOptions extends TextFormatterOptions {
   levelStyle?: AnsiStyle | null;
 
   /**
-   * The ANSI colors for the log levels.  The default colors are as follows:
+   * The ANSI colors for the log levels.  The levels omitted here use
+   * the colors of their definitions (see `registerLogLevel()`).
+   * The default colors are as follows:
    *
+   * - `"trace"`: No color
    * - `"debug"`: `"blue"`
    * - `"info"`: `"green"`
    * - `"warning"`: `"yellow"`
@@ -452,7 +445,7 @@ export interface AnsiColorFormatterOptions extends TextFormatterOptions {
    * - `"critical"`: `"darkorange"`
    * - `"fatal"`: `"magenta"`
    */
-  levelColors?: Record<LogLevel, AnsiColor | null>;
+  levelColors?: Partial<Record<LogLevel, AnsiColor | null>>;
 
   /**
    * The ANSI style for the category.  `"dim"` is used by default.
@@ -496,7 +489,7 @@ export function getAnsiColorFormatter(
     timestampStyle = "dim",
     timestampColor = null,
     levelStyle = "bold",
-    levelColors = defaultLevelColors,
+    levelColors = {},
     categoryStyle = "dim",
     categoryColor = null,
     inspectConfig,
@@ -523,7 +516,10 @@ export function getAnsiColorFormatter(
     ...options,
     format({ timestamp: ts, level: l, category, message, record }): string {
       const timestamp = getAnsiTimestamp(ts);
-      const levelColor = levelColors[record.level];
+      const color = levelColors[record.level];
+      const levelColor = color === undefined
+        ? getLogLevelDefinition(record.level).color
+        : color;
       const getAnsiLevel = getToAnsiStringTransformer(
         levelColor,
         levelStyle,
@@ -559,6 +555,276 @@ export function getAnsiColorFormatter(
  */
 export const ansiColorFormatter: TextFormatter = getAnsiColorFormatter();
 
+/**
+ * The various options for the JSON Lines formatter.
+ * @since 0.11.0
+ */
+export interface JsonLinesFormatterOptions {
+  /**
+   * The separator between category names in the `logger` field.  For example,
+   * if the separator is `"."`, the category `["a", "b", "c"]` will be
+   * formatted as `"a.b.c"`.  The default separator is `"."`.
+   *
+   * If this is a function, it will be called with the category array and
+   * should return a string, which will be used for the `logger` field.
+   */
+  categorySeparator?: string | ((category: CategoryList) => string);
+
+  /**
+   * How the properties of a log record are placed in the JSON object.
+   * This can be one of the following:
+   *
+   * - `"nest"`: The properties are placed as an object under the key
+   *   specified by {@link JsonLinesFormatterOptions.propertiesKey}.
+   * - `"flatten"`: The properties are placed at the top level of the JSON
+   *   object.  Properties whose names collide with the built-in fields
+   *   (e.g., `message`) or the {@link JsonLinesFormatterOptions.propertiesKey}
+   *   itself are placed under the
+   *   {@link JsonLinesFormatterOptions.propertiesKey} instead.
+   *
+   * The default is `"nest"`.
+   */
+  properties?: "nest" | "flatten";
+
+  /**
+   * The key to nest the properties under.  The default is `"properties"`.
+   */
+  propertiesKey?: string;
+
+  /**
+   * A function that renders a value embedded in the message to a string.
+   * This is used for rendering the `message` field only; the `properties`
+   * are serialized as JSON values.
+   *
+   * By default, strings are embedded as they are, and other values are
+   * serialized as JSON.
+   * @param value The value to render.
+   * @returns The string representation of the value.
+   */
+  value?: (value: unknown) => string;
+
+  /**
+   * The custom inspectors for specific types, which are applied when
+   * serializing values.  They take precedence over the methods named with
+   * `Symbol.for("logtape.inspect")` of the values.
+   */
+  inspectors?: CustomInspectors;
+}
+
+const traceContextFields = ["trace_id", "span_id", "trace_flags"];
+
+/**
+ * Get a JSON Lines formatter with the specified options.  The formatter
+ * formats each log record as a single line of JSON object, which is suitable
+ * for log shippers and other machine consumers, e.g.:
+ *
+ * ```json
+ * {"@timestamp":"2023-11-14T22:13:20.000Z","level":"info","logger":"my-app.junk","message":"Hello, 123 & 456!","rawMessage":"Hello, {a} & {b}!","properties":{"a":123,"b":456}}
+ * ```
+ *
+ * Values that cannot be represented in JSON as they are get converted
+ * safely: circular references become `"[Circular]"`, `Error`s become objects
+ * with their `name`, `message`, `stack`, parsed stack `frames`, `cause`, and
+ * aggregated `errors` (see `serializeError()`), `bigint`s become
+ * strings, `Map`s become objects, `Set`s become arrays, and `Date`s become
+ * RFC 3339 strings.
+ *
+ * Values with custom inspection, i.e., the ones whose types are registered in
+ * {@link JsonLinesFormatterOptions.inspectors} or which have a method named
+ * with `Symbol.for("logtape.inspect")`, are serialized as the results of
+ * the inspection.  Node.js's `util.inspect.custom` methods are honored as
+ * a fallback for objects without `toJSON()` methods.
+ *
+ * The `trace_id`, `span_id`, and `trace_flags` properties, which are attached
+ * to log records in a trace context (see `withTraceparent()`), are always
+ * placed at the top level of the JSON object as they are standard fields.
+ *
+ * For more information on the options, see {@link JsonLinesFormatterOptions}.
+ * @param options The options for the JSON Lines formatter.
+ * @returns The JSON Lines formatter.
+ * @since 0.11.0
+ */
+export function getJsonLinesFormatter(
+  options: JsonLinesFormatterOptions = {},
+): TextFormatter {
+  const separator = options.categorySeparator ?? ".";
+  const getLogger = typeof separator === "function"
+    ? separator
+    : (category: CategoryList) => category.join(separator);
+  const valueRenderer = options.value ??
+    ((value: unknown) =>
+      typeof value === "string"
+        ? value
+        : JSON.stringify(toJsonValue(value, undefined, options.inspectors)) ??
+          String(value));
+  const propertiesKey = options.propertiesKey ?? "properties";
+  const flatten = options.properties === "flatten";
+
+  return (record: LogRecord): string => {
+    const message = record.message.reduce<string>(
+      (msg, part, i) => msg + (i % 2 === 0 ? part : valueRenderer(part)),
+      "",
+    );
+    const json: Record<string, unknown> = {
+      "@timestamp": getDateIsoString(record.timestamp),
+      level: record.level,
+      logger: getLogger(record.category),
+      message,
+      rawMessage: typeof record.rawMessage === "string"
+        ? record.rawMessage
+        : [...record.rawMessage],
+    };
+    let properties = toJsonValue(
+      record.properties,
+      undefined,
+      options.inspectors,
+    );
+    if (
+      properties != null && typeof properties === "object" &&
+      !Array.isArray(properties) && "trace_id" in properties
+    ) {
+      // The trace context is placed at the top level under the standard
+      // field names, so that log records can be correlated with traces:
+      const rest: Record<string, unknown> = { ...properties };
+      for (const field of traceContextFields) {
+        if (field in rest) json[field] = rest[field];
+        delete rest[field];
+      }
+      properties = rest;
+    }
+    if (
+      flatten && properties != null && typeof properties === "object" &&
+      !Array.isArray(properties)
+    ) {
+      const collisions: Record<string, unknown> = {};
+      let collided = false;
+      for (const [key, value] of Object.entries(properties)) {
+        // The properties key is reserved for the collisions:
+        if (
+          key === propertiesKey ||
+          Object.prototype.hasOwnProperty.call(json, key)
+        ) {
+          collisions[key] = value;
+          collided = true;
+        } else {
+          json[key] = value;
+        }
+      }
+      if (collided) json[propertiesKey] = collisions;
+    } else if (properties !== undefined) {
+      json[propertiesKey] = properties;
+    }
+    return `${JSON.stringify(json)}\n`;
+  };
+}
+
+/**
+ * The default JSON Lines formatter.  This formatter formats log records as
+ * follows:
+ *
+ * ```json
+ * {"@timestamp":"2023-11-14T22:13:20.000Z","level":"info","logger":"my-app.junk","message":"Hello, 123 & 456!","rawMessage":"Hello, {a} & {b}!","properties":{"a":123,"b":456}}
+ * ```
+ *
+ * @param record The log record to format.
+ * @returns The formatted log record.
+ * @since 0.11.0
+ */
+export const jsonLinesFormatter: TextFormatter = getJsonLinesFormatter();
+
+/**
+ * Converts a value to a value that can be safely serialized with
+ * {@link JSON.stringify}.
+ * @param value The value to convert.
+ * @param ancestors The objects being converted, to detect circular references.
+ * @param inspectors The custom inspectors to apply.
+ * @returns The JSON-safe value.  `undefined` if the value should be omitted.
+ */
+export function toJsonValue(
+  value: unknown,
+  ancestors: Set<object> = new Set(),
+  inspectors?: CustomInspectors,
+): unknown {
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return value;
+    case "number":
+      return Number.isFinite(value) ? value : String(value);
+    case "bigint":
+      return value.toString();
+    case "symbol":
+      return value.toString();
+    case "undefined":
+    case "function":
+      return undefined;
+  }
+  if (value === null) return null;
+  const obj = value as object;
+  if (ancestors.has(obj)) return "[Circular]";
+  const custom = getCustomInspection(
+    obj,
+    inspectors,
+    (v) => inspect(v, { inspectors }),
+  );
+  if (custom != null && custom[0] !== obj) {
+    if (typeof custom[0] === "string") return custom[0];
+    ancestors.add(obj);
+    try {
+      return toJsonValue(custom[0], ancestors, inspectors);
+    } finally {
+      ancestors.delete(obj);
+    }
+  }
+  if (obj instanceof Date) {
+    return Number.isNaN(obj.getTime()) ? null : obj.toISOString();
+  }
+  ancestors.add(obj);
+  try {
+    if (obj instanceof Error) {
+      const error: Record<string, unknown> = {};
+      for (const [key, v] of Object.entries(serializeError(obj))) {
+        error[key] = toJsonValue(v, ancestors, inspectors);
+      }
+      return error;
+    }
+    if (Array.isArray(obj)) {
+      return obj.map((v) => toJsonValue(v, ancestors, inspectors) ?? null);
+    }
+    if (obj instanceof Set) {
+      return [...obj].map((v) => toJsonValue(v, ancestors, inspectors) ?? null);
+    }
+    if (obj instanceof Map) {
+      const result: Record<string, unknown> = {};
+      for (const [k, v] of obj) {
+        result[String(k)] = toJsonValue(v, ancestors, inspectors);
+      }
+      return result;
+    }
+    if (ArrayBuffer.isView(obj) && !(obj instanceof DataView)) {
+      return Array.from(obj as unknown as ArrayLike<number | bigint>)
+        .map((v) => toJsonValue(v, ancestors, inspectors));
+    }
+    if ("toJSON" in obj && typeof obj.toJSON === "function") {
+      return toJsonValue(obj.toJSON(), ancestors, inspectors);
+    }
+    // Uses the default depth of inspect():
+    const nodeCustom = getNodeCustomInspection(obj, 5, { inspectors });
+    if (nodeCustom != null && nodeCustom[0] !== obj) {
+      return typeof nodeCustom[0] === "string"
+        ? nodeCustom[0]
+        : toJsonValue(nodeCustom[0], ancestors, inspectors);
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(obj)) {
+      result[key] = toJsonValue(v, ancestors, inspectors);
+    }
+    return result;
+  } finally {
+    ancestors.delete(obj);
+  }
+}
+
 /**
  * A console formatter is a function that accepts a log record and returns
  * an array of arguments to pass to {@link console.log}.
@@ -572,7 +838,8 @@ export type ConsoleFormatter = (record: LogRecord) => readonly unknown[];
 /**
  * The styles for the log level in the console.
  */
-const logLevelStyles: Record<LogLevel, string> = {
+const logLevelStyles: Partial<Record<LogLevel, string>> = {
+  "trace": "background-color: lightgray; color: black;",
   "debug": "background-color: gray; color: white;",
   "info": "background-color: white; color: black;",
   "warning": "background-color: orange; color: black;",
@@ -581,6 +848,18 @@ const logLevelStyles: Record<LogLevel, string> = {
   "fatal": "background-color: maroon; color: white;",
 };
 
+/**
+ * Gets the style for a custom log level in the console, based on its color.
+ */
+function getConsoleLevelStyle(level: LogLevel): string {
+  const { color } = getLogLevelDefinition(level);
+  if (color == null) return "background-color: gray; color: white;";
+  const textColor = color === "yellow" || color === "cyan" || color === "white"
+    ? "black"
+    : "white";
+  return `background-color: ${color}; color: ${textColor};`;
+}
+
 type DefaultConsoleFormatterOptions = BaseFormatterOptions;
 
 /**
@@ -609,11 +888,11 @@ export function getDefaultConsoleFormatter(
 
     // Format the log record for console output
     return [
-      `%c${time} %c${levelAbbreviations[level]}%c %c${
+      `%c${time} %c${getLogLevelDefinition(level).abbreviation}%c %c${
         category.join("\xb7")
       } %c${msg}`,
       "color: gray;",
-      logLevelStyles[level],
+      logLevelStyles[level] ?? getConsoleLevelStyle(level),
       "background-color: default;",
       "color: gray;",
       "color: default;",
@@ -0,0 +1,175 @@
+import { assertEquals } from "@std/assert/assert-equals";
+import { type CustomInspectors, inspect, inspectSymbol } from "./inspect.ts";
+
+Deno.test("inspect()", async (t) => {
+  await t.step("primitives", () => {
+    assertEquals(inspect("foo"), "`foo`");
+    assertEquals(inspect(123), "123");
+    assertEquals(inspect(123n), "123n");
+    assertEquals(inspect(true), "true");
+    assertEquals(inspect(null), "null");
+    assertEquals(inspect(undefined), "undefined");
+    assertEquals(inspect(Symbol("foo")), "Symbol(foo)");
+  });
+
+  await t.step("built-in objects", () => {
+    assertEquals(
+      inspect(new Date(1700000000000)),
+      "2023-11-14T22:13:20.000Z",
+    );
+    assertEquals(inspect(new Date(NaN)), "Invalid Date");
+    assertEquals(inspect(/foo/gi), "/foo/gi");
+    assertEquals(
+      inspect(new Map<unknown, unknown>([["a", 1], [2, [3]]])),
+      "Map(2) { `a` => 1, 2 => [3] }",
+    );
+    assertEquals(inspect(new Map()), "Map(0) {}");
+    assertEquals(inspect(new Set([1, "b"])), "Set(2) { 1, `b` }");
+    assertEquals(
+      inspect(new Uint8Array([1, 2, 3, 4])),
+      "Uint8Array(4) [1, 2, 3, 4]",
+    );
+    assertEquals(inspect(new BigInt64Array(1)), "BigInt64Array(1) [0n]");
+    assertEquals(inspect(new ArrayBuffer(4)), "ArrayBuffer { byteLength: 4 }");
+    assertEquals(inspect(new WeakMap()), "WeakMap { <items unknown> }");
+    assertEquals(
+      inspect({ [Symbol("s")]: 1, a: {} }),
+      "{ a: {}, [Symbol(s)]: 1 }",
+    );
+  });
+
+  await t.step("class instances", () => {
+    class User {
+      constructor(readonly id: number) {}
+    }
+    assertEquals(inspect(new User(1)), "User { id: 1 }");
+    assertEquals(inspect(User), "[class User]");
+    assertEquals(inspect(() => {}), "[Function (anonymous)]");
+    assertEquals(inspect(Object.create(null)), "[Object: null prototype] {}");
+    assertEquals(
+      inspect({ a: { b: new User(2) } }, { depth: 1 }),
+      "{ a: { b: [User] } }",
+    );
+  });
+
+  await t.step("references", () => {
+    const shared = { x: 1 };
+    assertEquals(inspect([shared, shared]), "[{ x: 1 }, { x: 1 }]");
+    const circular: Record<string, unknown> = { a: 1 };
+    circular.self = circular;
+    assertEquals(inspect(circular), "{ a: 1, self: [Circular] }");
+  });
+
+  await t.step("maxArrayLength", () => {
+    assertEquals(
+      inspect([1, 2, 3, 4], { maxArrayLength: 2 }),
+      "[1, 2, ... 2 more items]",
+    );
+    assertEquals(
+      inspect(new Set([1, 2]), { maxArrayLength: 1 }),
+      "Set(2) { 1, ... 1 more item }",
+    );
+  });
+
+  await t.step("maxStringLength", () => {
+    assertEquals(
+      inspect("abcdef", { maxStringLength: 3 }),
+      "`abc`... 3 more characters",
+    );
+  });
+
+  await t.step("sorted", () => {
+    assertEquals(inspect({ b: 1, a: 2 }, { sorted: true }), "{ a: 2, b: 1 }");
+    assertEquals(
+      inspect({ a: 1, b: 2 }, { sorted: (a, b) => b.localeCompare(a) }),
+      "{ b: 2, a: 1 }",
+    );
+  });
+
+  await t.step("breakLength", () => {
+    const value = { foo: "a".repeat(10), bar: [1, 2, 3], baz: { qux: true } };
+    assertEquals(
+      inspect(value, { breakLength: 80 }),
+      "{ foo: `aaaaaaaaaa`, bar: [1, 2, 3], baz: { qux: true } }",
+    );
+    assertEquals(
+      inspect(value, { breakLength: 20 }),
+      "{\n" +
+        "  foo: `aaaaaaaaaa`,\n" +
+        "  bar: [1, 2, 3],\n" +
+        "  baz: { qux: true }\n" +
+        "}",
+    );
+    assertEquals(
+      inspect({ list: ["a".repeat(10), "b".repeat(10)] }, { breakLength: 20 }),
+      "{\n" +
+        "  list: [\n" +
+        "    `aaaaaaaaaa`,\n" +
+        "    `bbbbbbbbbb`\n" +
+        "  ]\n" +
+        "}",
+    );
+  });
+
+  await t.step("colors", () => {
+    assertEquals(
+      inspect(new Date(1700000000000), { colors: true }),
+      "\x1b[35m2023-11-14T22:13:20.000Z\x1b[39m",
+    );
+  });
+});
+
+Deno.test("inspect() [custom]", async (t) => {
+  class Money {
+    constructor(readonly amount: number, readonly currency: string) {}
+  }
+  class Secret {
+    constructor(readonly value: string) {}
+
+    [inspectSymbol]() {
+      return "Secret(***)";
+    }
+  }
+  class Entity {
+    constructor(readonly id: number, readonly data: Record<string, unknown>) {}
+
+    [inspectSymbol](inspect: (value: unknown) => string) {
+      return `Entity#${this.id} ${inspect(Object.keys(this.data))}`;
+    }
+  }
+  class Wrapper {
+    constructor(readonly inner: unknown) {}
+
+    [inspectSymbol]() {
+      return { wrapped: this.inner };
+    }
+  }
+  class NodeStyle {
+    [Symbol.for("nodejs.util.inspect.custom")](depth: number) {
+      return `NodeStyle(${depth})`;
+    }
+  }
+
+  await t.step("symbol", () => {
+    assertEquals(inspect({ s: new Secret("pw") }), "{ s: Secret(***) }");
+    assertEquals(
+      inspect(new Entity(1, { a: 1, b: 2 })),
+      "Entity#1 [`a`, `b`]",
+    );
+    assertEquals(inspect(new Wrapper(1)), "{ wrapped: 1 }");
+  });
+
+  await t.step("registry", () => {
+    const inspectors: CustomInspectors = new Map();
+    inspectors.set(Money, (m: Money) => `${m.amount} ${m.currency}`);
+    inspectors.set(Secret, () => "[REDACTED]");
+    assertEquals(
+      inspect([new Money(10, "USD"), new Secret("pw")], { inspectors }),
+      "[10 USD, [REDACTED]]",
+    );
+  });
+
+  await t.step("util.inspect.custom", () => {
+    assertEquals(inspect({ a: new NodeStyle() }), "{ a: NodeStyle(4) }");
+  });
+});
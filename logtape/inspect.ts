@@ -1,3 +1,5 @@
+import { parseStackTrace } from "./error.ts";
+
 type PlainObject = { [key: string]: unknown };
 
 type Colors = {
@@ -5,14 +7,132 @@ type Colors = {
   number: string;
   boolean: string;
   function: string;
+  error: string;
+  symbol: string;
+  date: string;
+  regexp: string;
   reset: string;
 };
 
+/**
+ * The well-known symbol for custom inspection, i.e.,
+ * `Symbol.for("logtape.inspect")`.  An object can define a method with this
+ * symbol to control how it is rendered by the formatters, e.g., to hide
+ * secrets or to abbreviate huge objects:
+ *
+ * ```typescript
+ * class ApiKey {
+ *   constructor(private readonly key: string) {}
+ *
+ *   [Symbol.for("logtape.inspect")]() {
+ *     return `ApiKey(${this.key.slice(0, 4)}...)`;
+ *   }
+ * }
+ * ```
+ *
+ * See {@link CustomInspector} for the meaning of the return value.
+ * @since 0.11.0
+ */
+export const inspectSymbol: unique symbol = Symbol.for("logtape.inspect");
+
+/**
+ * The symbol of Node.js's `util.inspect.custom`, which is honored as
+ * a fallback of {@link inspectSymbol}.
+ */
+const nodeInspectSymbol = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * A custom inspector, which renders a value of a specific type.  If it returns
+ * a string, the string is rendered as it is by `inspect()`, and is used as
+ * a string value by structured formatters.  Otherwise, the returned value is
+ * rendered or serialized instead of the original value.
+ * @typeParam T The type of the values to inspect.
+ * @param value The value to inspect.
+ * @param inspect The function to render nested values with the same options.
+ * @returns The rendered string, or the value to render instead.
+ * @since 0.11.0
+ */
+// deno-lint-ignore no-explicit-any
+export type CustomInspector<T = any> = (
+  value: T,
+  inspect: (value: unknown) => string,
+) => unknown;
+
+/**
+ * A registry of {@link CustomInspector}s.  The keys are the classes, and
+ * the values are the inspectors for their instances (including the instances
+ * of their subclasses).
+ * @since 0.11.0
+ */
+export type CustomInspectors = Map<
+  // deno-lint-ignore no-explicit-any
+  abstract new (...args: any[]) => unknown,
+  CustomInspector
+>;
+
 export type InspectConfig = {
+  /**
+   * The maximum depth of nested objects to render.  Deeper objects are
+   * rendered as their type names in brackets, e.g., `[Object]`.
+   * The default is `5`.
+   */
   depth?: number;
+
+  /**
+   * Whether to render the properties whose names start with an underscore.
+   * Turned off by default.
+   */
   showHidden?: boolean;
+
+  /**
+   * Whether to colorize the output with ANSI escape codes.  The colors can be
+   * customized per type of values.  Turned off by default.
+   */
   colors?: boolean | Partial<Colors>;
+
+  /**
+   * Whether to render the source code of functions instead of their names.
+   * Turned off by default.
+   */
   printFunctions?: boolean;
+
+  /**
+   * The maximum number of the elements of arrays, typed arrays, `Set`s, and
+   * `Map`s to render.  The rest are summarized, e.g., `... 3 more items`.
+   * The default is `100`.
+   * @since 0.11.0
+   */
+  maxArrayLength?: number;
+
+  /**
+   * The maximum number of characters of strings to render.  The rest are
+   * summarized, e.g., `... 3 more characters`.  Unlimited by default.
+   * @since 0.11.0
+   */
+  maxStringLength?: number;
+
+  /**
+   * The length at which objects and arrays are broken into multiple lines.
+   * If a rendered object or array on a line is longer than this, each of its
+   * entries is put on its own line with indentation.  Unlimited by default,
+   * i.e., everything is rendered on a single line.
+   * @since 0.11.0
+   */
+  breakLength?: number;
+
+  /**
+   * Whether to sort the keys of objects and `Map`s.  If a function, it is
+   * used as the comparison function.  Turned off by default.
+   * @since 0.11.0
+   */
+  sorted?: boolean | ((a: string, b: string) => number);
+
+  /**
+   * The custom inspectors for specific types.  They take precedence over
+   * the {@link inspectSymbol} methods of the values.
+   * @since 0.11.0
+   */
+  inspectors?: CustomInspectors;
 };
 
 const baseColors: Colors = {
@@ -20,6 +140,10 @@ const baseColors: Colors = {
   number: "\x1b[33m", // Yellow for numbers
   boolean: "\x1b[35m", // Magenta for booleans
   function: "\x1b[34m", // Blue for functions
+  error: "\x1b[31m", // Red for errors
+  symbol: "\x1b[32m", // Green for symbols
+  date: "\x1b[35m", // Magenta for dates
+  regexp: "\x1b[31m", // Red for regular expressions
   reset: "\x1b[39m", // Reset color
 };
 
@@ -31,29 +155,189 @@ function tryAddColors(
   return colors ? `${colors[type]}${value}${colors.reset}` : value;
 }
 
+function plural(count: number, noun: string): string {
+  return `${count} more ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Gets the prefix to render before an object, e.g., `"User "` for
+ * an instance of the `User` class.
+ */
+function getObjectPrefix(obj: object): string {
+  const proto = Object.getPrototypeOf(obj);
+  if (proto === null) return "[Object: null prototype] ";
+  const name = typeof proto.constructor === "function"
+    ? proto.constructor.name
+    : "";
+  return name === "" || name === "Object" ? "" : `${name} `;
+}
+
+/**
+ * Applies the custom inspection of a value, if any: the inspector registered
+ * for its type, or its {@link inspectSymbol} method.
+ * @param value The value to inspect.
+ * @param inspectors The custom inspectors.
+ * @param inspect The function to render nested values.
+ * @returns A single-element array with the result of the custom inspection,
+ *          or `undefined` if the value has no custom inspection.
+ */
+export function getCustomInspection(
+  value: object,
+  inspectors: CustomInspectors | undefined,
+  inspect: (value: unknown) => string,
+): [unknown] | undefined {
+  if (inspectors != null) {
+    for (const [type, inspector] of inspectors) {
+      if (value instanceof type) return [inspector(value, inspect)];
+    }
+  }
+  const method = (value as { [inspectSymbol]?: unknown })[inspectSymbol];
+  if (typeof method === "function") return [method.call(value, inspect)];
+  return undefined;
+}
+
+/**
+ * Applies the [`util.inspect.custom`] method of a value, if any.
+ *
+ * [`util.inspect.custom`]: https://nodejs.org/api/util.html#utilinspectcustom
+ * @param value The value to inspect.
+ * @param depth The remaining depth to render.
+ * @param config The options to pass to the method.
+ * @returns A single-element array with the result of the method, or
+ *          `undefined` if the value has no such method.
+ */
+export function getNodeCustomInspection(
+  value: object,
+  depth: number,
+  config: InspectConfig,
+): [unknown] | undefined {
+  const method = (value as { [nodeInspectSymbol]?: unknown })[
+    nodeInspectSymbol
+  ];
+  if (typeof method !== "function") return undefined;
+  return [
+    method.call(
+      value,
+      depth,
+      { ...config, depth, stylize: (str: string) => str },
+      inspect,
+    ),
+  ];
+}
+
+// deno-lint-ignore no-control-regex
+const ansiPattern = /\x1b\[[0-9;]*m/g;
+
 export function inspect(
   value: unknown,
-  {
+  config: InspectConfig = {},
+): string {
+  const {
     depth = 5,
     showHidden = false,
     colors: withColors = false,
     printFunctions = false,
-  }: InspectConfig = {},
-): string {
+    maxArrayLength = 100,
+    maxStringLength = Infinity,
+    breakLength = Infinity,
+    sorted = false,
+    inspectors,
+  } = config;
   const colors = withColors
     ? {
       ...baseColors,
       ...(typeof withColors === "object" ? withColors : {}),
     }
     : false;
+  const compareKeys = typeof sorted === "function"
+    ? sorted
+    : sorted
+    ? (a: string, b: string) => a < b ? -1 : a > b ? 1 : 0
+    : null;
 
+  // The objects being rendered, to detect circular references:
   const seen = new WeakSet<PlainObject>();
 
-  const formatValue = (val: unknown, currentDepth: number): string => {
-    if (currentDepth > depth) {
-      return "[Object]"; // Prevent deep nesting
+  /**
+   * Renders the entries of a container on a single line if it fits in
+   * `breakLength`, or on multiple lines otherwise.
+   */
+  const wrap = (
+    prefix: string,
+    [open, close]: [string, string],
+    entries: string[],
+    currentDepth: number,
+    padding = " ",
+  ): string => {
+    if (entries.length < 1) return `${prefix}${open}${close}`;
+    const single = `${prefix}${open}${padding}${
+      entries.join(", ")
+    }${padding}${close}`;
+    const length = currentDepth * 2 + single.replace(ansiPattern, "").length;
+    if (length <= breakLength) return single;
+    const lines = entries.map((entry) => `  ${entry.replaceAll("\n", "\n  ")}`);
+    return `${prefix}${open}\n${lines.join(",\n")}\n${close}`;
+  };
+
+  const formatString = (val: string): string => {
+    if (val.length <= maxStringLength) {
+      return tryAddColors(`\`${val}\``, colors, "string");
+    }
+    return tryAddColors(
+      `\`${val.slice(0, maxStringLength)}\``,
+      colors,
+      "string",
+    ) + `... ${plural(val.length - maxStringLength, "character")}`;
+  };
+
+  const formatItems = (
+    items: Iterable<unknown>,
+    size: number,
+    currentDepth: number,
+    format: (item: unknown) => string = (item) =>
+      formatValue(item, currentDepth + 1),
+  ): string[] => {
+    const result: string[] = [];
+    for (const item of items) {
+      if (result.length >= maxArrayLength) break;
+      result.push(format(item));
+    }
+    if (size > result.length) {
+      result.push(`... ${plural(size - result.length, "item")}`);
+    }
+    return result;
+  };
+
+  const formatKey = (key: string | symbol): string =>
+    typeof key === "symbol"
+      ? `[${tryAddColors(key.toString(), colors, "symbol")}]`
+      : key;
+
+  const formatProperties = (
+    obj: object,
+    currentDepth: number,
+    exclude: string[] = [],
+  ): string[] => {
+    const keys: (string | symbol)[] = Object.keys(obj).filter((key) =>
+      !exclude.includes(key) && (showHidden || !key.startsWith("_"))
+    );
+    if (compareKeys != null) (keys as string[]).sort(compareKeys);
+    for (const symbol of Object.getOwnPropertySymbols(obj)) {
+      if (Object.prototype.propertyIsEnumerable.call(obj, symbol)) {
+        keys.push(symbol);
+      }
     }
+    return keys.map((key) =>
+      `${formatKey(key)}: ${
+        formatValue(
+          (obj as Record<string | symbol, unknown>)[key],
+          currentDepth + 1,
+        )
+      }`
+    );
+  };
 
+  const formatValue = (val: unknown, currentDepth: number): string => {
     if (val === null) {
       return "null";
     }
@@ -65,38 +349,189 @@ export function inspect(
     if (typeof val === "function") {
       const functionString = printFunctions
         ? val.toString()
-        : `[Function: ${val.name}]`;
+        : val.toString().startsWith("class ")
+        ? `[class ${val.name || "(anonymous)"}]`
+        : val.name
+        ? `[Function: ${val.name}]`
+        : "[Function (anonymous)]";
       return tryAddColors(functionString, colors, "function");
     }
 
     if (typeof val === "string") {
-      return tryAddColors(`\`${val}\``, colors, "string");
+      return formatString(val);
     }
 
     if (typeof val === "number") {
       return tryAddColors(String(val), colors, "number");
     }
 
+    if (typeof val === "bigint") {
+      return tryAddColors(`${val}n`, colors, "number");
+    }
+
     if (typeof val === "boolean") {
       return tryAddColors(String(val), colors, "boolean");
     }
 
+    if (typeof val === "symbol") {
+      return tryAddColors(val.toString(), colors, "symbol");
+    }
+
+    if (!seen.has(val as PlainObject)) {
+      seen.add(val as PlainObject);
+      let custom: [unknown] | undefined;
+      try {
+        custom = getCustomInspection(
+          val as object,
+          inspectors,
+          (v) => formatValue(v, currentDepth + 1),
+        );
+        custom ??= getNodeCustomInspection(
+          val as object,
+          depth - currentDepth,
+          config,
+        );
+      } finally {
+        seen.delete(val as PlainObject);
+      }
+      if (custom != null && custom[0] !== val) {
+        return typeof custom[0] === "string"
+          ? custom[0]
+          : formatValue(custom[0], currentDepth);
+      }
+    }
+
+    if (val instanceof Date) {
+      return tryAddColors(
+        Number.isNaN(val.getTime()) ? "Invalid Date" : val.toISOString(),
+        colors,
+        "date",
+      );
+    }
+
+    if (val instanceof RegExp) {
+      return tryAddColors(String(val), colors, "regexp");
+    }
+
     if (seen.has(val as PlainObject)) {
       return "[Circular]";
     }
 
+    if (currentDepth > depth) {
+      // Prevent deep nesting:
+      if (Array.isArray(val)) return "[Array]";
+      const prefix = getObjectPrefix(val).trimEnd();
+      return `[${prefix === "" ? "Object" : prefix}]`;
+    }
+
     seen.add(val as PlainObject);
+    try {
+      return formatObject(val, currentDepth);
+    } finally {
+      seen.delete(val as PlainObject);
+    }
+  };
+
+  const formatObject = (val: object, currentDepth: number): string => {
+    if (val instanceof Error) {
+      return formatError(val, currentDepth);
+    }
 
     if (Array.isArray(val)) {
-      const items = val.map((item) => formatValue(item, currentDepth + 1));
-      return `[${items.join(", ")}]`;
+      const prefix = getObjectPrefix(val);
+      return wrap(
+        prefix === "Array " ? "" : prefix,
+        ["[", "]"],
+        formatItems(val, val.length, currentDepth),
+        currentDepth,
+        "",
+      );
+    }
+
+    if (ArrayBuffer.isView(val) && !(val instanceof DataView)) {
+      const array = val as unknown as ArrayLike<number | bigint>;
+      return wrap(
+        `${getObjectPrefix(val).trimEnd()}(${array.length}) `,
+        ["[", "]"],
+        formatItems(Array.from(array), array.length, currentDepth),
+        currentDepth,
+        "",
+      );
+    }
+
+    if (val instanceof ArrayBuffer) {
+      return `ArrayBuffer { byteLength: ${
+        tryAddColors(String(val.byteLength), colors, "number")
+      } }`;
+    }
+
+    if (val instanceof Map) {
+      let entries = [...val];
+      if (compareKeys != null) {
+        entries = entries.sort(([a], [b]) => compareKeys(String(a), String(b)));
+      }
+      return wrap(
+        `${getObjectPrefix(val).trimEnd()}(${val.size}) `,
+        ["{", "}"],
+        formatItems(entries, val.size, currentDepth, (entry) => {
+          const [k, v] = entry as [unknown, unknown];
+          return `${formatValue(k, currentDepth + 1)} => ${
+            formatValue(v, currentDepth + 1)
+          }`;
+        }),
+        currentDepth,
+      );
     }
 
-    const props = Object.entries(val)
-      .filter(([key]) => showHidden || !key.startsWith("_")) // Filter hidden properties
-      .map(([key, value]) => `${key}: ${formatValue(value, currentDepth + 1)}`);
+    if (val instanceof Set) {
+      return wrap(
+        `${getObjectPrefix(val).trimEnd()}(${val.size}) `,
+        ["{", "}"],
+        formatItems(val, val.size, currentDepth),
+        currentDepth,
+      );
+    }
 
-    return `{ ${props.join(", ")} }`;
+    if (val instanceof WeakMap || val instanceof WeakSet) {
+      return `${getObjectPrefix(val)}{ <items unknown> }`;
+    }
+
+    return wrap(
+      getObjectPrefix(val),
+      ["{", "}"],
+      formatProperties(val, currentDepth),
+      currentDepth,
+    );
+  };
+
+  const formatError = (error: Error, currentDepth: number): string => {
+    const header = error.message === ""
+      ? error.name
+      : `${error.name}: ${error.message}`;
+    const frames = typeof error.stack === "string"
+      ? parseStackTrace(error.stack).map(
+        ({ function: fn, file, line, column }) => {
+          const location = [file, line, column].filter((v) => v != null)
+            .join(":");
+          return `\n    at ${fn == null ? location : `${fn} (${location})`}`;
+        },
+      )
+      : [];
+    const props = formatProperties(error, currentDepth, ["cause", "errors"]);
+    const { cause, errors } = error as { cause?: unknown; errors?: unknown };
+    if (cause !== undefined) {
+      props.push(`[cause]: ${formatValue(cause, currentDepth + 1)}`);
+    }
+    if (Array.isArray(errors)) {
+      props.push(`[errors]: ${formatValue(errors, currentDepth + 1)}`);
+    }
+    const formatted = tryAddColors(header, colors, "error") + frames.join("");
+    if (props.length < 1) return formatted;
+    if (breakLength < Infinity) {
+      return wrap(`${formatted} `, ["{", "}"], props, currentDepth);
+    }
+    // Indent the nested lines so that they are distinguished from the frames:
+    return `${formatted} { ${props.join(", ").replaceAll("\n", "\n  ")} }`;
   };
 
   return formatValue(value, 0);
@@ -2,15 +2,28 @@ import { assert } from "@std/assert/assert";
 import { assertEquals } from "@std/assert/assert-equals";
 import { assertFalse } from "@std/assert/assert-false";
 import { assertThrows } from "@std/assert/assert-throws";
-import { isLogLevel, parseLogLevel } from "./level.ts";
+import { configure, reset } from "./config.ts";
+import {
+  compareLogLevel,
+  getLogLevels,
+  isLogLevel,
+  type LogLevel,
+  parseLogLevel,
+  registerLogLevel,
+  unregisterLogLevel,
+} from "./level.ts";
+import { getLogger } from "./logger/index.ts";
+import type { LogRecord } from "./record.ts";
 
 Deno.test("parseLogLevel()", () => {
+  assertEquals(parseLogLevel("trace"), "trace");
   assertEquals(parseLogLevel("debug"), "debug");
   assertEquals(parseLogLevel("info"), "info");
   assertEquals(parseLogLevel("warning"), "warning");
   assertEquals(parseLogLevel("error"), "error");
   assertEquals(parseLogLevel("critical"), "critical");
   assertEquals(parseLogLevel("fatal"), "fatal");
+  assertEquals(parseLogLevel("TRACE"), "trace");
   assertEquals(parseLogLevel("DEBUG"), "debug");
   assertEquals(parseLogLevel("INFO"), "info");
   assertEquals(parseLogLevel("WARNING"), "warning");
@@ -25,6 +38,7 @@ Deno.test("parseLogLevel()", () => {
 });
 
 Deno.test("isLogLevel()", () => {
+  assert(isLogLevel("trace"));
   assert(isLogLevel("debug"));
   assert(isLogLevel("info"));
   assert(isLogLevel("warning"));
@@ -34,3 +48,77 @@ Deno.test("isLogLevel()", () => {
   assertFalse(isLogLevel("DEBUG"));
   assertFalse(isLogLevel("invalid"));
 });
+
+Deno.test("compareLogLevel()", () => {
+  const levels: LogLevel[] = ["info", "trace", "fatal", "warning", "debug"];
+  levels.sort(compareLogLevel);
+  assertEquals(levels, ["trace", "debug", "info", "warning", "fatal"]);
+  assertEquals(compareLogLevel("error", "error"), 0);
+  assertThrows(
+    () => compareLogLevel("info", "invalid" as LogLevel),
+    TypeError,
+    "Invalid log level: invalid.",
+  );
+});
+
+Deno.test("registerLogLevel()", () => {
+  assertFalse(isLogLevel("audit"));
+  registerLogLevel("audit", { severity: 45, abbreviation: "AUD" });
+  try {
+    assert(isLogLevel("audit"));
+    assertEquals(parseLogLevel("AUDIT"), "audit");
+    assertEquals(getLogLevels(), [
+      "trace",
+      "debug",
+      "info",
+      "warning",
+      "audit",
+      "error",
+      "critical",
+      "fatal",
+    ]);
+    assertThrows(
+      () => registerLogLevel("audit", { severity: 46, abbreviation: "AUD" }),
+      TypeError,
+      "Log level already registered: audit.",
+    );
+    assertThrows(
+      () => registerLogLevel("Notice", { severity: 35, abbreviation: "NTC" }),
+      TypeError,
+      "Invalid log level name: Notice.",
+    );
+  } finally {
+    unregisterLogLevel("audit");
+  }
+  assertFalse(isLogLevel("audit"));
+  assertThrows(
+    () => unregisterLogLevel("audit"),
+    TypeError,
+    "Not a custom log level: audit.",
+  );
+  assertThrows(
+    () => unregisterLogLevel("info"),
+    TypeError,
+    "Not a custom log level: info.",
+  );
+});
+
+Deno.test("configure() [custom level below trace]", async () => {
+  registerLogLevel("verbose", { severity: 5, abbreviation: "VRB" });
+  const buffer: LogRecord[] = [];
+  try {
+    await configure({
+      sinks: { buffer: buffer.push.bind(buffer) },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"] },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+    });
+    // A logger without a level accepts all levels:
+    getLogger("my-app").log("verbose" as LogLevel, "Hello.");
+    assertEquals(buffer.map((r) => r.level), ["verbose"]);
+  } finally {
+    await reset();
+    unregisterLogLevel("verbose");
+  }
+});
@@ -1,13 +1,206 @@
+import type { AnsiColor } from "./formatter.ts";
+
+/**
+ * A registry of custom log levels for type checking.  To add custom log levels
+ * to the {@link LogLevel} type, augment this interface with the custom level
+ * names as keys (the values are not used), and register them at runtime with
+ * {@link registerLogLevel}:
+ *
+ * ```typescript
+ * declare module "@logtape/logtape" {
+ *   interface CustomLogLevels {
+ *     audit: true;
+ *   }
+ * }
+ *
+ * registerLogLevel("audit", { severity: 45, abbreviation: "AUD" });
+ * ```
+ * @since 0.11.0
+ */
+// deno-lint-ignore no-empty-interface
+export interface CustomLogLevels {}
+
 /**
  * The severity level of a {@link LogRecord}.
  */
 export type LogLevel =
+  | "trace"
   | "debug"
   | "info"
   | "warning"
   | "error"
   | "critical"
-  | "fatal";
+  | "fatal"
+  | Extract<keyof CustomLogLevels, string>;
+
+/**
+ * The definition of a log level.
+ * @since 0.11.0
+ */
+export interface LogLevelDefinition {
+  /**
+   * The numeric severity of the level.  The higher the number, the more severe
+   * the level.  The built-in levels have the following severities:
+   *
+   * - `"trace"`: 10
+   * - `"debug"`: 20
+   * - `"info"`: 30
+   * - `"warning"`: 40
+   * - `"error"`: 50
+   * - `"critical"`: 60
+   * - `"fatal"`: 70
+   */
+  readonly severity: number;
+
+  /**
+   * The three-letter abbreviation of the level in upper case, e.g., `"DBG"`.
+   */
+  readonly abbreviation: string;
+
+  /**
+   * The ANSI color of the level used by the ANSI color formatter.
+   * No color by default.
+   */
+  readonly color?: AnsiColor | null;
+
+  /**
+   * The name of the console method used by the console sink for the level.
+   * `"log"` by default.
+   */
+  readonly consoleMethod?: "debug" | "info" | "log" | "warn" | "error";
+}
+
+const logLevelDefinitions = new Map<string, Required<LogLevelDefinition>>([
+  ["trace", {
+    severity: 10,
+    abbreviation: "TRC",
+    color: null,
+    consoleMethod: "debug",
+  }],
+  ["debug", {
+    severity: 20,
+    abbreviation: "DBG",
+    color: "blue",
+    consoleMethod: "debug",
+  }],
+  ["info", {
+    severity: 30,
+    abbreviation: "INF",
+    color: "green",
+    consoleMethod: "info",
+  }],
+  ["warning", {
+    severity: 40,
+    abbreviation: "WRN",
+    color: "yellow",
+    consoleMethod: "warn",
+  }],
+  ["error", {
+    severity: 50,
+    abbreviation: "ERR",
+    color: "red",
+    consoleMethod: "error",
+  }],
+  ["critical", {
+    severity: 60,
+    abbreviation: "CRT",
+    color: "darkorange",
+    consoleMethod: "error",
+  }],
+  ["fatal", {
+    severity: 70,
+    abbreviation: "FTL",
+    color: "magenta",
+    consoleMethod: "error",
+  }],
+]);
+
+const builtinLogLevels: ReadonlySet<string> = new Set(
+  logLevelDefinitions.keys(),
+);
+
+/**
+ * Registers a custom log level.  Once registered, the level can be used
+ * anywhere a {@link LogLevel} is accepted, e.g., `logger.log("audit", ...)`,
+ * {@link parseLogLevel}, and level filters.
+ *
+ * @param level The name of the level.  It must consist of lowercase letters,
+ *              digits, hyphens, and underscores, and start with a letter.
+ * @param definition The definition of the level.
+ * @throws {TypeError} If the level name is invalid or already registered.
+ * @since 0.11.0
+ */
+export function registerLogLevel(
+  level: string,
+  definition: LogLevelDefinition,
+): void {
+  if (!/^[a-z][a-z0-9_-]*$/.test(level)) {
+    throw new TypeError(`Invalid log level name: ${level}.`);
+  }
+  if (logLevelDefinitions.has(level)) {
+    throw new TypeError(`Log level already registered: ${level}.`);
+  }
+  logLevelDefinitions.set(level, {
+    color: null,
+    consoleMethod: "log",
+    ...definition,
+  });
+}
+
+/**
+ * Unregisters a custom log level registered by {@link registerLogLevel}.
+ * This is meant for tests, which should not leave custom levels behind.
+ * @param level The name of the level.
+ * @throws {TypeError} If the level is not a registered custom level.
+ */
+export function unregisterLogLevel(level: string): void {
+  if (builtinLogLevels.has(level) || !logLevelDefinitions.has(level)) {
+    throw new TypeError(`Not a custom log level: ${level}.`);
+  }
+  logLevelDefinitions.delete(level);
+}
+
+/**
+ * Gets the definition of a log level.
+ * @param level The log level.
+ * @returns The definition of the log level.
+ * @throws {TypeError} If the log level is invalid.
+ * @since 0.11.0
+ */
+export function getLogLevelDefinition(
+  level: LogLevel,
+): Required<LogLevelDefinition> {
+  const definition = logLevelDefinitions.get(level);
+  if (definition == null) throw new TypeError(`Invalid log level: ${level}.`);
+  return definition;
+}
+
+/**
+ * Lists all the log levels, including the custom ones, in ascending order of
+ * severity.
+ * @returns The log levels.
+ * @since 0.11.0
+ */
+export function getLogLevels(): readonly LogLevel[] {
+  return [...logLevelDefinitions.entries()]
+    .sort(([, a], [, b]) => a.severity - b.severity)
+    .map(([level]) => level as LogLevel);
+}
+
+/**
+ * Compares two log levels by their severities.  This can be used as
+ * the comparison function of {@link Array.prototype.sort}.
+ * @param a The first log level.
+ * @param b The second log level.
+ * @returns A negative number if `a` is less severe than `b`, a positive number
+ *          if `a` is more severe than `b`, or zero if they are equally severe.
+ * @throws {TypeError} If either log level is invalid.
+ * @since 0.11.0
+ */
+export function compareLogLevel(a: LogLevel, b: LogLevel): number {
+  return getLogLevelDefinition(a).severity -
+    getLogLevelDefinition(b).severity;
+}
 
 /**
  * Parses a log level from a string.
@@ -18,17 +211,8 @@ export type LogLevel =
  */
 export function parseLogLevel(level: string): LogLevel {
   level = level.toLowerCase();
-  switch (level) {
-    case "debug":
-    case "info":
-    case "warning":
-    case "error":
-    case "critical":
-    case "fatal":
-      return level;
-    default:
-      throw new TypeError(`Invalid log level: ${level}.`);
-  }
+  if (isLogLevel(level)) return level;
+  throw new TypeError(`Invalid log level: ${level}.`);
 }
 
 /**
@@ -39,15 +223,5 @@ export function parseLogLevel(level: string): LogLevel {
  * @returns `true` if the string is a valid log level.
  */
 export function isLogLevel(level: string): level is LogLevel {
-  switch (level) {
-    case "debug":
-    case "info":
-    case "warning":
-    case "error":
-    case "critical":
-    case "fatal":
-      return true;
-    default:
-      return false;
-  }
+  return logLevelDefinitions.has(level);
 }
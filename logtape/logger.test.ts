@@ -3,10 +3,19 @@ import { assertEquals } from "@std/assert/assert-equals";
 import { assertFalse } from "@std/assert/assert-false";
 import { assertGreaterOrEqual } from "@std/assert/assert-greater-or-equal";
 import { assertLessOrEqual } from "@std/assert/assert-less-or-equal";
+import { assertRejects } from "@std/assert/assert-rejects";
 import { assertStrictEquals } from "@std/assert/assert-strict-equals";
+import { assertThrows } from "@std/assert/assert-throws";
+import { delay } from "@std/async/delay";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { toFilter } from "./filter.ts";
 import { debug, error, info, warning } from "./fixtures.ts";
-import { getLogger, LoggerImpl, renderMessage } from "./logger/index.ts";
+import {
+  getLogger,
+  LoggerImpl,
+  parseMessageTemplate,
+  renderMessage,
+} from "./logger/index.ts";
 import type { LogRecord } from "./record.ts";
 import type { Sink } from "./sink.ts";
 
@@ -287,6 +296,7 @@ Deno.test("LoggerImpl.log()", async (t) => {
   await t.step("test", async (t) => {
     for (const properties of [{ foo: 123 }, "any"]) {
       await t.step(typeof properties, () => {
+        const foo = typeof properties === "object" ? properties.foo : undefined;
         const logs: LogRecord[] = [];
         logger.sinks.push(logs.push.bind(logs));
         const before = Date.now();
@@ -296,7 +306,7 @@ Deno.test("LoggerImpl.log()", async (t) => {
           {
             category: ["foo"],
             level: "info",
-            message: ["Hello, {foo}!"],
+            message: ["Hello, ", foo, "!"],
             rawMessage: "Hello, {foo}!",
             timestamp: logs[0].timestamp,
             properties: properties,
@@ -323,7 +333,7 @@ Deno.test("LoggerImpl.log()", async (t) => {
           {
             category: ["foo"],
             level: "error",
-            message: ["Hello, {foo}!"],
+            message: ["Hello, ", foo, "!"],
             rawMessage: "Hello, {foo}!",
             timestamp: logs[0].timestamp,
             properties: properties,
@@ -425,7 +435,7 @@ Deno.test("Logger.with().log()", async (t) => {
       {
         category: ["foo"],
         level: "info",
-        message: ["Hello, {a} {b} {c}!"],
+        message: ["Hello, ", 1, " ", 2, " ", 3, "!"],
         rawMessage: "Hello, {a} {b} {c}!",
         timestamp: logs[0].timestamp,
         properties: { a: 1, b: 2, c: 3 },
@@ -452,7 +462,7 @@ Deno.test("Logger.with().log()", async (t) => {
       {
         category: ["foo"],
         level: "error",
-        message: ["Hello, {a} {b} {c}!"],
+        message: ["Hello, ", 1, " ", 2, " ", 3, "!"],
         rawMessage: "Hello, {a} {b} {c}!",
         timestamp: logs[0].timestamp,
         properties: { a: 1, b: 2, c: 3 },
@@ -541,6 +551,7 @@ Deno.test("Logger.with().logTemplate()", async (t) => {
 });
 
 const methods = [
+  "trace",
   "debug",
   "info",
   "warn",
@@ -653,7 +664,7 @@ for (const method of methods) {
         {
           category: ["foo"],
           level: method === "warn" ? "warning" : method,
-          message: ["Hello, {foo}!"],
+          message: ["Hello, ", 123, "!"],
           rawMessage: "Hello, {foo}!",
           timestamp: logs[0].timestamp,
           properties: { foo: 123 },
@@ -683,7 +694,7 @@ for (const method of methods) {
         {
           category: ["foo"],
           level: method === "warn" ? "warning" : method,
-          message: ["Hello, {a} {b} {c}!"],
+          message: ["Hello, ", 1, " ", 2, " ", 3, "!"],
           rawMessage: "Hello, {a} {b} {c}!",
           timestamp: logs[0].timestamp,
           properties: { a: 1, b: 2, c: 3 },
@@ -718,7 +729,7 @@ for (const method of methods) {
         {
           category: ["foo"],
           level: method === "warn" ? "warning" : method,
-          message: ["Hello, {foo}!"],
+          message: ["Hello, ", 123, "!"],
           rawMessage: "Hello, {foo}!",
           timestamp: logs[0].timestamp,
           properties: { foo: 123 },
@@ -737,7 +748,7 @@ for (const method of methods) {
         {
           category: ["foo"],
           level: method === "warn" ? "warning" : method,
-          message: ["Hello, {a} {b} {c}!"],
+          message: ["Hello, ", 1, " ", 2, " ", 3, "!"],
           rawMessage: "Hello, {a} {b} {c}!",
           timestamp: logs[0].timestamp,
           properties: { a: 1, b: 2, c: 3 },
@@ -753,6 +764,90 @@ for (const method of methods) {
   });
 }
 
+Deno.test("Logger.error() [Error]", async (t) => {
+  const logger = LoggerImpl.getLogger("foo");
+  const childLogger = logger.with({ a: 1 });
+  const logs: LogRecord[] = [];
+  logger.sinks.push(logs.push.bind(logs));
+  const err = new Error("Unexpected {token}");
+
+  await t.step("error", () => {
+    logger.error(err);
+    assertEquals(logs.length, 1);
+    assertEquals(logs[0].level, "error");
+    assertEquals(logs[0].message, ["Unexpected {token}"]);
+    assertEquals(logs[0].rawMessage, "{error}");
+    assertEquals(logs[0].properties, { error: err });
+    logs.shift();
+  });
+
+  await t.step("message and error", () => {
+    childLogger.error("Failed with {error} ({a}).", err);
+    assertEquals(logs.length, 1);
+    assertEquals(logs[0].message, ["Failed with ", err, " (", 1, ")."]);
+    assertEquals(logs[0].properties, { a: 1, error: err });
+    logs.shift();
+  });
+
+  await t.step("tear down", () => {
+    logger.resetDescendants();
+  });
+});
+
+Deno.test("parseMessageTemplate()", () => {
+  const props = { foo: 123, bar: "abc", " baz ": true, qux: null };
+  assertEquals(parseMessageTemplate("Hello, world!", props), [
+    "Hello, world!",
+  ]);
+  assertEquals(parseMessageTemplate("Hello, {foo}!", props), [
+    "Hello, ",
+    123,
+    "!",
+  ]);
+  assertEquals(parseMessageTemplate("{foo}{bar}", props), [
+    "",
+    123,
+    "",
+    "abc",
+    "",
+  ]);
+  assertEquals(parseMessageTemplate("{ foo } and { baz }", props), [
+    "",
+    123,
+    " and ",
+    true,
+    "",
+  ]);
+  assertEquals(parseMessageTemplate("{qux} {missing}", props), [
+    "",
+    null,
+    " ",
+    undefined,
+    "",
+  ]);
+  // Inherited members are not properties:
+  assertEquals(parseMessageTemplate("{constructor} {toString}", props), [
+    "",
+    undefined,
+    " ",
+    undefined,
+    "",
+  ]);
+  assertEquals(parseMessageTemplate("{{foo}} }} {{{bar}}}", props), [
+    "{foo} } {",
+    "abc",
+    "}",
+  ]);
+  assertEquals(parseMessageTemplate("Unclosed {foo", props), [
+    "Unclosed {foo",
+  ]);
+  assertEquals(parseMessageTemplate("Hello, {foo}!", undefined), [
+    "Hello, ",
+    undefined,
+    "!",
+  ]);
+});
+
 Deno.test("renderMessage()", () => {
   function rm(tpl: TemplateStringsArray, ...values: unknown[]) {
     return renderMessage(tpl, values);
@@ -762,3 +857,194 @@ Deno.test("renderMessage()", () => {
   assertEquals(rm`Hello, ${123}, ${456}!`, ["Hello, ", 123, ", ", 456, "!"]);
   assertEquals(rm`Hello, ${123}, ${456}`, ["Hello, ", 123, ", ", 456, ""]);
 });
+
+Deno.test("Logger.beginEvent()", async (t) => {
+  const logger = LoggerImpl.getLogger("foo");
+  const buffer: LogRecord[] = [];
+
+  await t.step("set up", () => {
+    logger.sinks.push(buffer.push.bind(buffer));
+  });
+
+  await t.step("test", () => {
+    const event = logger.beginEvent("Checkout", { cartId: 1 });
+    assertEquals(event.name, "Checkout");
+    event
+      .set({ items: 2, total: 30 })
+      .increment("retries")
+      .increment("retries")
+      .append("coupons", "A")
+      .append("coupons", "B");
+    assertEquals(event.properties, {
+      cartId: 1,
+      items: 2,
+      total: 30,
+      retries: 2,
+      coupons: ["A", "B"],
+    });
+    assertEquals(buffer, []);
+    assertFalse(event.ended);
+    event.end();
+    assert(event.ended);
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].level, "info");
+    assertEquals(buffer[0].category, ["foo"]);
+    assertEquals(buffer[0].message, ["Checkout"]);
+    assertEquals(buffer[0].properties, {
+      ...event.properties,
+      durationMs: (buffer[0].properties as { durationMs: number }).durationMs,
+    });
+    event.end();
+    assertEquals(buffer.length, 1);
+    buffer.pop();
+
+    const declined = new Error("Payment declined.");
+    const failed = logger.with({ userId: 5 }).beginEvent("Checkout");
+    failed.addError(declined);
+    failed.end();
+    assertEquals(buffer[0].level, "error");
+    assertEquals(
+      (buffer[0].properties as Record<string, unknown>).errors,
+      [declined],
+    );
+    assertEquals((buffer[0].properties as Record<string, unknown>).userId, 5);
+    buffer.pop();
+
+    logger.beginEvent("Checkout").end("warning");
+    assertEquals(buffer[0].level, "warning");
+  });
+
+  await t.step("tear down", () => {
+    logger.resetDescendants();
+  });
+});
+
+Deno.test("Logger.time()", async (t) => {
+  const logger = LoggerImpl.getLogger("foo");
+  const meta = LoggerImpl.getLogger(["logtape", "meta"]);
+  const buffer: LogRecord[] = [];
+  const metaBuffer: LogRecord[] = [];
+
+  await t.step("set up", () => {
+    logger.sinks.push(buffer.push.bind(buffer));
+    meta.sinks.push(metaBuffer.push.bind(metaBuffer));
+    meta.parentSinks = "override";
+  });
+
+  await t.step("test", async () => {
+    logger.time("query");
+    await delay(5);
+    logger.timeEnd("query", { rows: 3 });
+    assertEquals(buffer.length, 1);
+    assertEquals(buffer[0].level, "info");
+    assertEquals(buffer[0].rawMessage, "{label}: {durationMs} ms");
+    const { durationMs, ...properties } = buffer[0].properties as Record<
+      string,
+      unknown
+    >;
+    assertGreaterOrEqual(durationMs as number, 5);
+    assertEquals(properties, { label: "query", rows: 3 });
+
+    logger.timeEnd("query");
+    assertEquals(buffer.length, 1);
+    assertEquals(metaBuffer.length, 1);
+    assertEquals(metaBuffer[0].level, "warning");
+    assertEquals(metaBuffer[0].properties, { label: "query" });
+  });
+
+  await t.step("tear down", () => {
+    logger.resetDescendants();
+    meta.resetDescendants();
+  });
+});
+
+Deno.test("Logger.span()", async (t) => {
+  const root = LoggerImpl.getLogger();
+  const logger = LoggerImpl.getLogger("foo");
+  const buffer: LogRecord[] = [];
+  const props = (record: LogRecord) =>
+    record.properties as Record<string, unknown>;
+
+  await t.step("set up", () => {
+    logger.sinks.push(buffer.push.bind(buffer));
+    root.contextLocalStorage = new AsyncLocalStorage();
+  });
+
+  await t.step("sync", () => {
+    const result = logger.span("add", () => 1 + 2, { a: 1 });
+    assertEquals(result, 3);
+    assertEquals(buffer.map((r) => [r.level, r.rawMessage]), [
+      ["debug", "Span {span} started."],
+      ["info", "Span {span} ended in {durationMs} ms."],
+    ]);
+    assertEquals(props(buffer[0]).span, "add");
+    assertEquals(props(buffer[0]).a, 1);
+    assert(/^[0-9a-f]{16}$/.test(props(buffer[0]).spanId as string));
+    assertEquals(props(buffer[1]).spanId, props(buffer[0]).spanId);
+    assertEquals(props(buffer[1]).outcome, "ok");
+    assertEquals(typeof props(buffer[1]).durationMs, "number");
+    assertFalse("parentSpanId" in props(buffer[1]));
+    buffer.splice(0);
+
+    const error = new Error("Failed.");
+    assertThrows(() =>
+      logger.span("fail", () => {
+        throw error;
+      })
+    );
+    assertEquals(buffer[1].level, "error");
+    assertEquals(props(buffer[1]).outcome, "error");
+    assertStrictEquals(props(buffer[1]).error, error);
+    buffer.splice(0);
+  });
+
+  await t.step("async", async () => {
+    const result = await logger.span("outer", async () => {
+      await delay(1);
+      logger.info("Inside.");
+      return await logger.span("inner", async () => {
+        await delay(1);
+        return 123;
+      });
+    });
+    assertEquals(result, 123);
+    assertEquals(buffer.map((r) => [props(r).span, r.level]), [
+      ["outer", "debug"],
+      [undefined, "info"],
+      ["inner", "debug"],
+      ["inner", "info"],
+      ["outer", "info"],
+    ]);
+    const outerId = props(buffer[0]).spanId;
+    assertEquals(props(buffer[1]), {});
+    assertEquals(props(buffer[2]).parentSpanId, outerId);
+    assertEquals(props(buffer[3]).parentSpanId, outerId);
+    assertGreaterOrEqual(props(buffer[4]).durationMs as number, 2);
+    buffer.splice(0);
+
+    await assertRejects(
+      () => logger.span("reject", () => Promise.reject(new Error("Oops."))),
+      Error,
+      "Oops.",
+    );
+    assertEquals(buffer[1].level, "error");
+    assertEquals(props(buffer[1]).outcome, "error");
+    buffer.splice(0);
+
+    // A thenable that is not an instance of Promise, e.g., from another realm:
+    const thenable: PromiseLike<number> = {
+      then(onFulfilled, onRejected) {
+        return delay(2).then(() => 1).then(onFulfilled, onRejected);
+      },
+    };
+    assertEquals(await logger.span("thenable", () => thenable), 1);
+    assertEquals(buffer.length, 2);
+    assertEquals(props(buffer[1]).outcome, "ok");
+    assertGreaterOrEqual(props(buffer[1]).durationMs as number, 2);
+  });
+
+  await t.step("tear down", () => {
+    logger.resetDescendants();
+    delete root.contextLocalStorage;
+  });
+});
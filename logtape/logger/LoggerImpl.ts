@@ -4,7 +4,14 @@ import {
   getCategoryList,
   type MaybeCategory,
 } from "../category.ts";
-import { globalRootLoggerSymbol, metaLoggerCategory } from "../constants.ts";
+import type { ContextLocalStorage } from "../context.ts";
+import {
+  globalRootLoggerSymbol,
+  metaLoggerCategory,
+  spanIdSymbol,
+  traceContextSymbol,
+  wideEventSymbol,
+} from "../constants.ts";
 import type { Filter } from "../filter.ts";
 import type { LogLevel } from "../level.ts";
 import type {
@@ -13,7 +20,19 @@ import type {
 } from "../propertiesTransformer.ts";
 import type { LogRecord } from "../record.ts";
 import type { Sink } from "../sink.ts";
-import type { GlobalRootLoggerRegistry, LogCallback, Logger } from "./types.ts";
+import {
+  getTraceContextProperties,
+  isValidTraceContext,
+  type TraceContext,
+} from "../trace.ts";
+import { generateId, isThenable } from "../utils.ts";
+import type {
+  GlobalRootLoggerRegistry,
+  LogCallback,
+  Logger,
+  WideEvent,
+} from "./types.ts";
+import { WideEventImpl } from "./WideEventImpl.ts";
 
 /**
  * A logger implementation.  Do not use this directly; use {@link getLogger}
@@ -28,6 +47,30 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
   readonly propTransformers: PropertiesTransformer<P>[] = [];
   readonly properties?: P;
 
+  /**
+   * The context-local storage for implicit contexts.  Only the root logger
+   * has this.
+   */
+  contextLocalStorage?: ContextLocalStorage<Record<string, unknown>>;
+
+  /**
+   * The promises returned by sinks that are not wrapped by `fromAsyncSink()`,
+   * which are waited for when the configuration is reset.  Only the root
+   * logger has this.
+   */
+  pendingDeliveries?: Set<Promise<void>>;
+
+  /**
+   * The function to get the trace context of the current span, e.g., from
+   * OpenTelemetry.  Only the root logger has this.
+   */
+  getSpanContext?: () => TraceContext | undefined;
+
+  /**
+   * The start times of the timers made by {@link LoggerImpl.time}.
+   */
+  timers?: Map<string, number>;
+
   static getLogger<P>(category: Category = []): LoggerImpl<P> {
     let rootLogger: LoggerImpl<P> | null = globalRootLoggerSymbol in globalThis
       ? (((globalThis as GlobalRootLoggerRegistry)[
@@ -104,6 +147,53 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
     this.reset();
   }
 
+  /**
+   * Get the properties of the current implicit context, if any.
+   * @returns The properties of the current implicit context, or `undefined`
+   *          if not in any context.
+   */
+  getImplicitContext(): P | undefined {
+    const rootLogger = LoggerImpl.getLogger();
+    const store = rootLogger.contextLocalStorage?.getStore();
+    let spanContext: TraceContext | undefined;
+    try {
+      spanContext = rootLogger.getSpanContext?.();
+    } catch {
+      // A failing span context getter must not break logging; fall back to
+      // the trace context set by withTraceparent():
+      spanContext = undefined;
+    }
+    const traceContext = isValidTraceContext(spanContext)
+      ? spanContext
+      : (store as Record<symbol, unknown> | undefined)?.[traceContextSymbol] as
+        | TraceContext
+        | undefined;
+    if (
+      traceContext == null &&
+      (store == null || Object.getOwnPropertySymbols(store).length < 1)
+    ) {
+      return store as P | undefined;
+    }
+    // Symbol keys, e.g., the current wide event, are not properties:
+    const properties = store == null ? {} : Object.fromEntries(
+      Object.entries(store),
+    );
+    if (traceContext == null) return properties as P;
+    return { ...properties, ...getTraceContextProperties(traceContext) } as P;
+  }
+
+  /**
+   * Get the current wide event of the implicit context, if any.
+   * @returns The current wide event, or `undefined` if not in any event.
+   */
+  getCurrentEvent(): WideEvent | undefined {
+    const rootLogger = LoggerImpl.getLogger();
+    const store = rootLogger.contextLocalStorage?.getStore();
+    return (store as Record<symbol, unknown> | undefined)?.[wideEventSymbol] as
+      | WideEvent
+      | undefined;
+  }
+
   with(properties: P): LoggerImpl<P> {
     return new LoggerImpl(this, this.category, properties);
   }
@@ -147,16 +237,20 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
     for (const sink of this.getSinks()) {
       if (bypassSinks?.has(sink)) continue;
       try {
-        sink(record);
+        // A sink that is not an async function may still return a promise;
+        // its rejection should not be lost:
+        const result: unknown = sink(record);
+        if (isThenable(result)) {
+          const root = LoggerImpl.getLogger();
+          const pending = root.pendingDeliveries ??= new Set();
+          const promise: Promise<void> = Promise.resolve(result).then(
+            () => {},
+            (error) => reportSinkError(sink, error, record, bypassSinks),
+          ).finally(() => pending.delete(promise));
+          pending.add(promise);
+        }
       } catch (error) {
-        const bypassSinks2 = new Set(bypassSinks);
-        bypassSinks2.add(sink);
-        metaLogger._log(
-          "fatal",
-          "Failed to emit a log record to sink",
-          { sink, error, record },
-          bypassSinks2,
-        );
+        reportSinkError(sink, error, record, bypassSinks);
       }
     }
   }
@@ -169,20 +263,21 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
       | (() => P)
       | undefined,
     bypassSinks?: Set<Sink>,
+    getMessage?: (properties: P | undefined) => unknown[],
   ): void {
     const baseRecord = {
       category: this.category,
       level,
       timestamp: Date.now(),
       rawMessage,
-      message: [rawMessage],
     };
+    const implicitContext = this.getImplicitContext();
     const getProperties = () => {
       return (
         this.propTransform({
           ...baseRecord,
           properties: mergeProperties<P>(
-            this.properties,
+            mergeProperties(implicitContext, this.properties),
             typeof properties === "function"
               // deno-lint-ignore ban-ts-comment
               // @ts-ignore
@@ -194,6 +289,12 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
     };
     const record: LogRecord<P> = {
       ...baseRecord,
+      get message() {
+        const value = getMessage?.(this.properties) ??
+          parseMessageTemplate(rawMessage, this.properties);
+        Object.defineProperty(this, "message", { value });
+        return value;
+      },
       get properties() {
         const value = getProperties();
         Object.defineProperty(this, "properties", { value });
@@ -225,6 +326,18 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
 
       return [msg, rawMessage];
     }
+    const implicitContext = this.getImplicitContext();
+    const getProperties = (record: LogRecord) =>
+      this.propTransform({
+        category: record.category,
+        level: record.level,
+        rawMessage: record.rawMessage,
+        timestamp: record.timestamp,
+        properties: mergeProperties(
+          mergeProperties(implicitContext, this.properties),
+          properties,
+        ),
+      });
     this.emit({
       category: this.category,
       level,
@@ -235,7 +348,11 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
         return realizeMessage.call(this)[1];
       },
       timestamp: Date.now(),
-      properties: mergeProperties(this.properties, properties),
+      get properties() {
+        const value = getProperties(this);
+        Object.defineProperty(this, "properties", { value });
+        return value;
+      },
     });
   }
 
@@ -245,13 +362,29 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
     values: unknown[],
     properties?: P,
   ): void {
-    this.emit({
+    const baseRecord = {
       category: this.category,
       level,
-      message: renderMessage(messageTemplate, values),
       rawMessage: messageTemplate,
       timestamp: Date.now(),
-      properties: mergeProperties(this.properties, properties),
+    };
+    const implicitContext = this.getImplicitContext();
+    const getProperties = () =>
+      this.propTransform({
+        ...baseRecord,
+        properties: mergeProperties(
+          mergeProperties(implicitContext, this.properties),
+          properties,
+        ),
+      });
+    this.emit({
+      ...baseRecord,
+      message: renderMessage(messageTemplate, values),
+      get properties() {
+        const value = getProperties();
+        Object.defineProperty(this, "properties", { value });
+        return value;
+      },
     });
   }
 
@@ -269,6 +402,13 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
     }
   }
 
+  trace(
+    message: TemplateStringsArray | string | LogCallback,
+    ...values: unknown[]
+  ): void {
+    this.log("trace", message, ...values);
+  }
+
   debug(
     message: TemplateStringsArray | string | LogCallback,
     ...values: unknown[]
@@ -291,10 +431,25 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
   }
 
   error(
-    message: TemplateStringsArray | string | LogCallback,
+    message: TemplateStringsArray | string | LogCallback | Error,
     ...values: unknown[]
   ): void {
-    this.log("error", message, ...values);
+    if (message instanceof Error) {
+      // The message is taken from the error property rather than embedded in
+      // the raw message, so that properties transformers, e.g., redaction,
+      // apply to it as well:
+      this._log(
+        "error",
+        "{error}",
+        { error: message } as P,
+        undefined,
+        renderErrorMessage,
+      );
+    } else if (typeof message === "string" && values[0] instanceof Error) {
+      this._log("error", message, { error: values[0] } as P);
+    } else {
+      this.log("error", message, ...values);
+    }
   }
 
   critical(
@@ -310,6 +465,76 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
   ): void {
     this.log("fatal", message, ...values);
   }
+
+  beginEvent(name: string, properties?: Record<string, unknown>): WideEvent {
+    return new WideEventImpl(this as LoggerImpl<unknown>, name, properties);
+  }
+
+  time(label: string): void {
+    (this.timers ??= new Map()).set(label, performance.now());
+  }
+
+  timeEnd(label: string, properties?: P): void {
+    const start = this.timers?.get(label);
+    if (start == null) {
+      metaLogger.warn("No such timer: {label}.", { label });
+      return;
+    }
+    this.timers?.delete(label);
+    const durationMs = performance.now() - start;
+    this._log(
+      "info",
+      "{label}: {durationMs} ms",
+      { ...properties, label, durationMs } as P,
+    );
+  }
+
+  span<T>(name: string, fn: () => T, properties?: P): T {
+    const storage = LoggerImpl.getLogger().contextLocalStorage;
+    const store = storage?.getStore();
+    const parentSpanId = (store as Record<symbol, unknown> | undefined)?.[
+      spanIdSymbol
+    ] as string | undefined;
+    const spanId = generateId(8);
+    const spanProperties = parentSpanId == null
+      ? { ...properties, span: name, spanId }
+      : { ...properties, span: name, spanId, parentSpanId };
+    this._log("debug", "Span {span} started.", spanProperties as P);
+    const start = performance.now();
+    const succeed = () =>
+      this._log("info", "Span {span} ended in {durationMs} ms.", {
+        ...spanProperties,
+        durationMs: performance.now() - start,
+        outcome: "ok",
+      } as P);
+    const fail = (error: unknown) =>
+      this._log("error", "Span {span} failed in {durationMs} ms.", {
+        ...spanProperties,
+        durationMs: performance.now() - start,
+        outcome: "error",
+        error,
+      } as P);
+    let result: T;
+    try {
+      result = storage == null
+        ? fn()
+        : storage.run({ ...store, [spanIdSymbol]: spanId }, fn);
+    } catch (error) {
+      fail(error);
+      throw error;
+    }
+    if (isThenable(result)) {
+      return result.then((value) => {
+        succeed();
+        return value;
+      }, (error) => {
+        fail(error);
+        throw error;
+      }) as T;
+    }
+    succeed();
+    return result;
+  }
 }
 
 /**
@@ -317,6 +542,28 @@ export class LoggerImpl<P = unknown> implements Logger<P> {
  */
 const metaLogger = LoggerImpl.getLogger(metaLoggerCategory);
 
+/**
+ * Logs an error thrown by a sink to the meta logger.  The sink is bypassed
+ * so that the meta log record does not cause infinite recursion.
+ */
+function reportSinkError(
+  // deno-lint-ignore no-explicit-any
+  sink: Sink<any>,
+  error: unknown,
+  record: LogRecord,
+  // deno-lint-ignore no-explicit-any
+  bypassSinks?: Set<Sink<any>>,
+): void {
+  const bypassSinks2 = new Set(bypassSinks);
+  bypassSinks2.add(sink);
+  metaLogger._log(
+    "fatal",
+    "Failed to emit a log record to sink",
+    { sink, error, record },
+    bypassSinks2,
+  );
+}
+
 /**
  * Render a message template with values.
  * @param template The message template.
@@ -336,6 +583,68 @@ export function renderMessage(
   return args;
 }
 
+/**
+ * Parse a message template with named placeholders (e.g., `{name}`) and
+ * render it with the given properties.  Leading and trailing spaces inside
+ * placeholders are forgiven (e.g., `{ name }`), but a property with exactly
+ * the same name takes precedence over the space-trimmed one.  Use `{{` and
+ * `}}` to escape curly braces.
+ * @param template The message template.
+ * @param properties The properties to look up placeholders in.
+ * @returns The message template parts interleaved with the substituted
+ *          property values.
+ */
+export function parseMessageTemplate(
+  template: string,
+  properties: unknown,
+): unknown[] {
+  const message: unknown[] = [];
+  let part = "";
+  for (let i = 0; i < template.length; i++) {
+    const char = template.charAt(i);
+    const nextChar = template.charAt(i + 1);
+    if ((char === "{" || char === "}") && nextChar === char) {
+      // Escaped curly brace:
+      part += char;
+      i++;
+    } else if (char === "{") {
+      const end = template.indexOf("}", i + 1);
+      if (end < 0) {
+        // Unclosed placeholder; treat the rest as a plain text:
+        part += template.slice(i);
+        break;
+      }
+      message.push(part);
+      message.push(getPlaceholderValue(properties, template.slice(i + 1, end)));
+      part = "";
+      i = end;
+    } else {
+      part += char;
+    }
+  }
+  message.push(part);
+  return message;
+}
+
+/**
+ * Renders the message of a log record made by `logger.error(error)` from
+ * its `error` property, which may have been transformed, e.g., redacted.
+ */
+function renderErrorMessage(properties: unknown): unknown[] {
+  const error = (properties as { error?: unknown } | undefined)?.error;
+  return [error instanceof Error ? error.message : String(error)];
+}
+
+function getPlaceholderValue(properties: unknown, key: string): unknown {
+  if (properties == null || typeof properties !== "object") return undefined;
+  const props = properties as Record<string, unknown>;
+  // Inherited members like `constructor` are not properties:
+  for (const k of [key, key.trim()]) {
+    if (Object.prototype.hasOwnProperty.call(props, k)) return props[k];
+  }
+  return undefined;
+}
+
 export function isLogger<P>(obj: unknown): obj is Logger<P> {
   return !!obj && obj?.constructor.name === LoggerImpl.name;
 }
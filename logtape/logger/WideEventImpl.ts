@@ -0,0 +1,69 @@
+import { wideEventSymbol } from "../constants.ts";
+import { withContext } from "../context.ts";
+import type { LogLevel } from "../level.ts";
+import type { LoggerImpl } from "./LoggerImpl.ts";
+import type { WideEvent } from "./types.ts";
+
+/**
+ * A wide event implementation.  Do not use this directly; use
+ * {@link Logger.beginEvent} instead.
+ */
+export class WideEventImpl implements WideEvent {
+  readonly logger: LoggerImpl<unknown>;
+  readonly name: string;
+  readonly properties: Record<string, unknown>;
+  readonly startTime: number;
+  ended: boolean = false;
+
+  constructor(
+    logger: LoggerImpl<unknown>,
+    name: string,
+    properties: Record<string, unknown> = {},
+  ) {
+    this.logger = logger;
+    this.name = name;
+    this.properties = { ...properties };
+    this.startTime = performance.now();
+  }
+
+  set(key: string | Record<string, unknown>, value?: unknown): this {
+    if (typeof key === "string") this.properties[key] = value;
+    else Object.assign(this.properties, key);
+    return this;
+  }
+
+  increment(key: string, delta: number = 1): this {
+    const value = this.properties[key];
+    this.properties[key] = (typeof value === "number" ? value : 0) + delta;
+    return this;
+  }
+
+  append(key: string, value: unknown): this {
+    const array = this.properties[key];
+    if (Array.isArray(array)) array.push(value);
+    else this.properties[key] = [value];
+    return this;
+  }
+
+  addError(error: unknown): this {
+    return this.append("errors", error);
+  }
+
+  run<T>(callback: () => T): T {
+    return withContext({ [wideEventSymbol]: this }, callback);
+  }
+
+  end(level?: LogLevel): void {
+    if (this.ended) return;
+    this.ended = true;
+    const durationMs = performance.now() - this.startTime;
+    // Escape the curly braces so that the name is not parsed as a message
+    // template:
+    const rawMessage = this.name.replace(/[{}]/g, "$&$&");
+    this.logger._log(
+      level ?? ("errors" in this.properties ? "error" : "info"),
+      rawMessage,
+      { ...this.properties, durationMs },
+    );
+  }
+}
@@ -16,6 +16,7 @@ export interface GlobalRootLoggerRegistry {
  *
  * ```typescript
  * const logger = getLogger("category");
+ * logger.trace `A trace message with ${value}.`;
  * logger.debug `A debug message with ${value}.`;
  * logger.info `An info message with ${value}.`;
  * logger.warn `A warning message with ${value}.`;
@@ -140,6 +141,63 @@ export interface Logger<P = unknown> {
    */
   log(level: LogLevel, callback: LogCallback): void;
 
+  /**
+   * Log a trace message.  Use this as a template string prefix.
+   *
+   * ```typescript
+   * logger.trace `A trace message with ${value}.`;
+   * ```
+   *
+   * @param message The message template strings array.
+   * @param values The message template values.
+   * @since 0.11.0
+   */
+  trace(message: TemplateStringsArray, ...values: readonly unknown[]): void;
+
+  /**
+   * Log a trace message with properties.
+   *
+   * ```typescript
+   * logger.trace('A trace message with {value}.', { value });
+   * ```
+   *
+   * If the properties are expensive to compute, you can pass a callback that
+   * returns the properties:
+   *
+   * ```typescript
+   * logger.trace(
+   *   'A trace message with {value}.',
+   *   () => ({ value: expensiveComputation() })
+   * );
+   * ```
+   *
+   * @param message The message template.  Placeholders to be replaced with
+   *                `values` are indicated by keys in curly braces (e.g.,
+   *                `{value}`).
+   * @param properties The values to replace placeholders with.  For lazy
+   *                   evaluation, this can be a callback that returns the
+   *                   properties.
+   * @since 0.11.0
+   */
+  trace(
+    message: string,
+    properties?: P | (() => P),
+  ): void;
+
+  /**
+   * Lazily log a trace message.  Use this when the message values are expensive
+   * to compute and should only be computed if the message is actually logged.
+   *
+   * ```typescript
+   * logger.trace(l => l`A trace message with ${expensiveValue()}.`);
+   * ```
+   *
+   * @param callback A callback that returns the message template prefix.
+   * @throws {TypeError} If no log record was made inside the callback.
+   * @since 0.11.0
+   */
+  trace(callback: LogCallback): void;
+
   /**
    * Log a debug message.  Use this as a template string prefix.
    *
@@ -316,6 +374,43 @@ export interface Logger<P = unknown> {
    */
   error(message: TemplateStringsArray, ...values: readonly unknown[]): void;
 
+  /**
+   * Log an error object.  The error itself is put under the `error` property
+   * so that formatters can render its stack trace and cause chain, and its
+   * message is used as the log message.  The raw message is `"{error}"`.
+   *
+   * ```typescript
+   * try {
+   *   await doSomething();
+   * } catch (error) {
+   *   logger.error(error as Error);
+   * }
+   * ```
+   *
+   * @param error The error to log.
+   * @since 0.11.0
+   */
+  error(error: Error): void;
+
+  /**
+   * Log an error message with an error object.  The error is put under
+   * the `error` property, so it can be referred to in the message template
+   * (e.g., `{error}`).
+   *
+   * ```typescript
+   * logger.error("Failed to fetch the user {userId}.", error);
+   * ```
+   *
+   * Note that other placeholders than `{error}` are resolved against
+   * the properties of the logger (see {@link Logger.with}) and the implicit
+   * context.
+   *
+   * @param message The message template.
+   * @param error The error to log.
+   * @since 0.11.0
+   */
+  error(message: string, error: Error): void;
+
   /**
    * Log an error message with properties.
    *
@@ -468,6 +563,169 @@ export interface Logger<P = unknown> {
    * @throws {TypeError} If no log record was made inside the callback.
    */
   fatal(callback: LogCallback): void;
+
+  /**
+   * Begin a wide event, which accumulates properties across a unit of work,
+   * e.g., a request, and emits them as a single log record when it ends.
+   *
+   * ```typescript
+   * const event = logger.beginEvent("Handled a request.", { path });
+   * await event.run(async () => {
+   *   // Nested code can add properties through getCurrentEvent():
+   *   getCurrentEvent()?.set("userId", user.id);
+   * });
+   * event.end();
+   * ```
+   *
+   * @param name The name of the event.  It is used as the log message.
+   * @param properties The initial properties of the event.
+   * @returns The wide event.
+   * @since 0.11.0
+   */
+  beginEvent(name: string, properties?: Record<string, unknown>): WideEvent;
+
+  /**
+   * Start a timer with the given label.  Call {@link Logger.timeEnd} with
+   * the same label to log the elapsed time.  Starting a timer with the label
+   * of a running timer restarts it.
+   *
+   * ```typescript
+   * logger.time("query");
+   * const rows = await db.query(sql);
+   * logger.timeEnd("query", { rows: rows.length });
+   * ```
+   *
+   * @param label The label of the timer.
+   * @since 0.11.0
+   */
+  time(label: string): void;
+
+  /**
+   * Stop a timer started by {@link Logger.time}, and log an informational
+   * message with the `label` and `durationMs` properties.  If there is no
+   * timer with the label, a warning is logged to the meta logger instead.
+   *
+   * @param label The label of the timer.
+   * @param properties Additional properties to log.
+   * @since 0.11.0
+   */
+  timeEnd(label: string, properties?: P): void;
+
+  /**
+   * Run a function as a span, i.e., a timed unit of work.  It logs a debug
+   * message when the span starts, and an informational message when it ends,
+   * or an error message if the function throws or the promise it returns
+   * rejects.  The thrown error is rethrown.
+   *
+   * The messages have the `span` (the name), `spanId`, and `parentSpanId`
+   * (if nested in another span) properties, and the end message also has
+   * the `durationMs`, `outcome` (`"ok"` or `"error"`), and `error` (if
+   * failed) properties.
+   *
+   * ```typescript
+   * const user = await logger.span("fetchUser", async () => {
+   *   return await db.getUser(userId);
+   * }, { userId });
+   * ```
+   *
+   * Nested spans are tracked through the implicit context, so that the
+   * `contextLocalStorage` option must be set in the configuration to fill
+   * the `parentSpanId` property.
+   *
+   * @typeParam T The return type of the function.
+   * @param name The name of the span.
+   * @param fn The function to run.  It can be either synchronous or
+   *           asynchronous.
+   * @param properties Additional properties to log.
+   * @returns The return value of the function.
+   * @since 0.11.0
+   */
+  span<T>(name: string, fn: () => T, properties?: P): T;
+}
+
+/**
+ * A wide event, which accumulates properties across a unit of work and emits
+ * them as a single log record when it ends.  It is made by
+ * {@link Logger.beginEvent}.
+ * @since 0.11.0
+ */
+export interface WideEvent {
+  /**
+   * The name of the event.
+   */
+  readonly name: string;
+
+  /**
+   * The properties accumulated so far.
+   */
+  readonly properties: Readonly<Record<string, unknown>>;
+
+  /**
+   * Whether the event has ended.
+   */
+  readonly ended: boolean;
+
+  /**
+   * Set a property.
+   * @param key The property name.
+   * @param value The property value.
+   * @returns The event itself.
+   */
+  set(key: string, value: unknown): this;
+
+  /**
+   * Set multiple properties at once.
+   * @param properties The properties to set.
+   * @returns The event itself.
+   */
+  set(properties: Record<string, unknown>): this;
+
+  /**
+   * Add a number to a numeric property.  A missing property counts as `0`.
+   * @param key The property name.
+   * @param delta The number to add.  Defaults to `1`.
+   * @returns The event itself.
+   */
+  increment(key: string, delta?: number): this;
+
+  /**
+   * Append a value to an array property.  A missing property counts as
+   * an empty array.
+   * @param key The property name.
+   * @param value The value to append.
+   * @returns The event itself.
+   */
+  append(key: string, value: unknown): this;
+
+  /**
+   * Record an error.  Errors are collected in the `errors` property, and
+   * make the event end at the `"error"` level by default.
+   * @param error The error to record.
+   * @returns The event itself.
+   */
+  addError(error: unknown): this;
+
+  /**
+   * Run a callback with the event as the current event of the implicit
+   * context, so that the code within the callback can get the event by
+   * `getCurrentEvent()` without passing it around.
+   *
+   * Note that the `contextLocalStorage` option must be set in
+   * the configuration to use this method.  Otherwise, the callback is run
+   * without the event, and a warning is logged to the meta logger.
+   * @param callback The callback to run.
+   * @returns The return value of the callback.
+   */
+  run<T>(callback: () => T): T;
+
+  /**
+   * End the event and emit a log record with the accumulated properties and
+   * the `durationMs` property, i.e., the elapsed time since the event began.
+   * Ending an event more than once has no effect.
+   * @param level The log level of the log record.  Defaults to `"error"` if
+   *              any errors are recorded, or `"info"` otherwise.
+   */
+  end(level?: LogLevel): void;
 }
 
 /**
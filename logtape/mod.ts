@@ -6,18 +6,44 @@ export {
 } from "./category.ts";
 export {
   type Config,
+  type ConfigDiff,
   ConfigError,
   configure,
   dispose,
+  type EnvConfig,
   getConfig,
   type LoggerConfig,
+  type PartialConfig,
+  reconfigure,
   reset,
 } from "./config.ts";
+export {
+  configureFromObject,
+  type FormatterFactory,
+  registerFormatterFactory,
+  registerSinkFactory,
+  type SinkFactory,
+} from "./configObject.ts";
+export {
+  type ContextLocalStorage,
+  getCurrentEvent,
+  withContext,
+} from "./context.ts";
+export {
+  parseStackTrace,
+  type SerializedError,
+  serializeError,
+  type StackFrame,
+} from "./error.ts";
 export { getFileSink, getRotatingFileSink } from "./filesink.jsr.ts";
 export {
   type Filter,
   type FilterLike,
   getLevelFilter,
+  getRateLimitFilter,
+  getSamplingFilter,
+  type RateLimitFilterOptions,
+  type SamplingFilterOptions,
   toFilter,
 } from "./filter.ts";
 export {
@@ -30,22 +56,85 @@ export {
   type FormattedValues,
   getAnsiColorFormatter,
   getDefaultConsoleFormatter,
+  getJsonLinesFormatter,
   getTextFormatter,
+  jsonLinesFormatter,
+  type JsonLinesFormatterOptions,
   type TextFormatter,
   type TextFormatterOptions,
 } from "./formatter.ts";
-export { isLogLevel, type LogLevel, parseLogLevel } from "./level.ts";
-export { getLogger, isLogger, type Logger } from "./logger/index.ts";
+export {
+  compareLogLevel,
+  type CustomLogLevels,
+  getLogLevels,
+  isLogLevel,
+  type LogLevel,
+  type LogLevelDefinition,
+  parseLogLevel,
+  registerLogLevel,
+} from "./level.ts";
+export {
+  type CustomInspector,
+  type CustomInspectors,
+  type InspectConfig,
+  inspectSymbol,
+} from "./inspect.ts";
+export {
+  getLogger,
+  isLogger,
+  type Logger,
+  type WideEvent,
+} from "./logger/index.ts";
+export { getOtlpSink, type OtlpSinkOptions } from "./otlp.ts";
 export type { LogRecord } from "./record.ts";
 export {
+  creditCardNumberPattern,
+  defaultFieldPatterns,
+  emailAddressPattern,
+  getRedactionTransformer,
+  getRedactor,
+  jwtPattern,
+  type RedactionOptions,
+  type RedactionPattern,
+  type RedactionStrategy,
+  type Redactor,
+  withRedaction,
+} from "./redaction.ts";
+export {
+  type AsyncSink,
+  type AsyncSinkOptions,
+  type BatchingSinkOptions,
   type ConsoleSinkOptions,
+  type DeduplicationOptions,
   type FileSinkOptions,
+  type FingersCrossedOptions,
+  fromAsyncSink,
+  getBatchingSink,
   getConsoleSink,
+  getFallbackSink,
+  getFanoutSink,
+  getMemorySink,
+  getRoutingSink,
   getStreamSink,
+  type MemorySink,
+  type MemorySinkOptions,
+  type MemorySinkQuery,
   type RotatingFileSinkOptions,
+  type RoutingRule,
+  type RoutingSinkOptions,
   type Sink,
   type StreamSinkOptions,
+  withDeduplication,
   withFilter,
+  withFingersCrossed,
 } from "./sink.ts";
+export {
+  formatTraceparent,
+  generateTraceparent,
+  parseTraceparent,
+  type TraceContext,
+  type TraceContextOptions,
+  withTraceparent,
+} from "./trace.ts";
 
 // cSpell: ignore filesink
@@ -0,0 +1,229 @@
+import { assertEquals } from "@std/assert/assert-equals";
+import { Buffer } from "node:buffer";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { gunzipSync } from "node:zlib";
+import { configure, reset } from "./config.ts";
+import { getLogLevels } from "./level.ts";
+import { getOtlpSink, getSeverityNumber } from "./otlp.ts";
+import type { LogRecord } from "./record.ts";
+
+interface CollectedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+/**
+ * Starts a local HTTP server that stands in for an OTLP collector.  It
+ * responds to each request with the next status in the given list, or with
+ * 200 if the list is exhausted.
+ */
+async function startCollector(statuses: number[] = []) {
+  const requests: CollectedRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const data = Buffer.concat(chunks);
+      const body = req.headers["content-encoding"] === "gzip"
+        ? gunzipSync(data)
+        : data;
+      requests.push({
+        headers: req.headers,
+        body: JSON.parse(body.toString("utf-8")),
+      });
+      const status = statuses.shift() ?? 200;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(status === 200 ? "{}" : '{"message":"Oops"}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}/v1/logs`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+const record: LogRecord = {
+  category: ["my-app", "junk"],
+  level: "warning",
+  message: ["Hello, ", 123, " & ", { foo: "bar" }, "!"],
+  rawMessage: "Hello, {a} & {b}!",
+  timestamp: 1700000000000,
+  properties: {
+    a: 123,
+    b: { foo: "bar" },
+    list: [true, 1.5, null],
+    trace_id: "4bf92f3577b34da6a3ce929d0e0e4736",
+    span_id: "00f067aa0ba902b7",
+    trace_flags: "01",
+  },
+};
+
+Deno.test("getOtlpSink()", async () => {
+  const collector = await startCollector();
+  try {
+    const sink = getOtlpSink({
+      endpoint: collector.endpoint,
+      headers: { Authorization: "Bearer token" },
+      serviceName: "my-service",
+      resourceAttributes: { "deployment.environment": "test" },
+    });
+    sink(record);
+    sink({
+      ...record,
+      category: ["other"],
+      level: "info",
+      message: ["Hi!"],
+      rawMessage: ["Hi!"] as unknown as TemplateStringsArray,
+      properties: {},
+    });
+    await sink[Symbol.asyncDispose]();
+    assertEquals(collector.requests.length, 1);
+    const [{ headers, body }] = collector.requests;
+    assertEquals(headers["content-type"], "application/json");
+    assertEquals(headers["content-encoding"], "gzip");
+    assertEquals(headers.authorization, "Bearer token");
+    assertEquals(body, {
+      resourceLogs: [
+        {
+          resource: {
+            attributes: [
+              { key: "service.name", value: { stringValue: "my-service" } },
+              {
+                key: "deployment.environment",
+                value: { stringValue: "test" },
+              },
+            ],
+          },
+          scopeLogs: [
+            {
+              scope: { name: "my-app.junk" },
+              logRecords: [
+                {
+                  timeUnixNano: "1700000000000000000",
+                  severityNumber: 13,
+                  severityText: "WARNING",
+                  body: { stringValue: 'Hello, 123 & {"foo":"bar"}!' },
+                  traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+                  spanId: "00f067aa0ba902b7",
+                  flags: 1,
+                  attributes: [
+                    { key: "a", value: { intValue: "123" } },
+                    {
+                      key: "b",
+                      value: {
+                        kvlistValue: {
+                          values: [
+                            { key: "foo", value: { stringValue: "bar" } },
+                          ],
+                        },
+                      },
+                    },
+                    {
+                      key: "list",
+                      value: {
+                        arrayValue: {
+                          values: [
+                            { boolValue: true },
+                            { doubleValue: 1.5 },
+                            {},
+                          ],
+                        },
+                      },
+                    },
+                    {
+                      key: "logtape.message.template",
+                      value: { stringValue: "Hello, {a} & {b}!" },
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              scope: { name: "other" },
+              logRecords: [
+                {
+                  timeUnixNano: "1700000000000000000",
+                  severityNumber: 9,
+                  severityText: "INFO",
+                  body: { stringValue: "Hi!" },
+                  attributes: [
+                    {
+                      key: "logtape.message.template",
+                      value: { stringValue: "Hi!" },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  } finally {
+    await collector.close();
+  }
+});
+
+Deno.test("getOtlpSink() [retry]", async () => {
+  const collector = await startCollector([503, 429]);
+  try {
+    const sink = getOtlpSink({
+      endpoint: collector.endpoint,
+      compression: "none",
+      retryDelayMs: 1,
+    });
+    sink(record);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(collector.requests.length, 3);
+    assertEquals(collector.requests[2].headers["content-encoding"], undefined);
+    assertEquals(collector.requests[2].body, collector.requests[0].body);
+  } finally {
+    await collector.close();
+  }
+});
+
+Deno.test("getOtlpSink() [non-retryable]", async () => {
+  const collector = await startCollector([400]);
+  const metaBuffer: LogRecord[] = [];
+  try {
+    await configure({
+      sinks: { meta: metaBuffer.push.bind(metaBuffer) },
+      loggers: [
+        { category: ["logtape", "meta"], sinks: ["meta"], level: "error" },
+      ],
+      reset: true,
+    });
+    const sink = getOtlpSink({
+      endpoint: collector.endpoint,
+      retryDelayMs: 1,
+    });
+    sink(record);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(collector.requests.length, 1);
+    assertEquals(metaBuffer.length, 1);
+    assertEquals(metaBuffer[0].level, "error");
+    assertEquals(metaBuffer[0].properties, {
+      count: 1,
+      status: 400,
+      body: '{"message":"Oops"}',
+    });
+  } finally {
+    await reset();
+    await collector.close();
+  }
+});
+
+Deno.test("getSeverityNumber()", () => {
+  assertEquals(
+    getLogLevels().map(getSeverityNumber),
+    [1, 5, 9, 13, 17, 21, 24],
+  );
+});
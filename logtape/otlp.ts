@@ -0,0 +1,274 @@
+import { metaLoggerCategory } from "./constants.ts";
+import { toJsonValue } from "./formatter.ts";
+import { getLogLevelDefinition, type LogLevel } from "./level.ts";
+import { LoggerImpl } from "./logger/index.ts";
+import type { LogRecord } from "./record.ts";
+import {
+  type BatchingSinkOptions,
+  getBatchingSink,
+  type Sink,
+} from "./sink.ts";
+import { getTemplate } from "./utils.ts";
+
+/**
+ * Options for the {@link getOtlpSink} function.  Besides the following
+ * options, the options of {@link getBatchingSink} control how log records
+ * are batched and how failed requests are retried.
+ * @since 0.11.0
+ */
+export interface OtlpSinkOptions extends BatchingSinkOptions {
+  /**
+   * The URL of the OTLP/HTTP logs endpoint.  Defaults to
+   * `"http://localhost:4318/v1/logs"`.
+   */
+  endpoint?: string | URL;
+
+  /**
+   * Additional HTTP headers to send, e.g., for authentication.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * The name of the service, which is sent as the `service.name` resource
+   * attribute.  Defaults to `"unknown_service"`.
+   */
+  serviceName?: string;
+
+  /**
+   * Additional resource attributes, e.g., `{ "deployment.environment":
+   * "production" }`.
+   */
+  resourceAttributes?: Record<string, unknown>;
+
+  /**
+   * The compression of request bodies.  Defaults to `"gzip"`.
+   */
+  compression?: "gzip" | "none";
+
+  /**
+   * The timeout of each request in milliseconds.  Defaults to `10000`.
+   */
+  timeout?: number;
+}
+
+/**
+ * The HTTP status codes that the OTLP specification considers retryable.
+ */
+const retryableStatuses = [429, 502, 503, 504];
+
+/**
+ * A sink factory that returns a sink that exports log records to
+ * an [OpenTelemetry] collector or backend through the OTLP/HTTP protocol
+ * with JSON encoding.  Log records are converted as follows:
+ *
+ * - The category becomes the instrumentation scope, whose parts are joined
+ *   with dots.
+ * - The log level becomes the severity number and text.
+ * - The rendered message becomes the body, and the message template is kept
+ *   as the `logtape.message.template` attribute.
+ * - The properties become attributes, except for the `trace_id`, `span_id`,
+ *   and `trace_flags` properties (see `withTraceparent()`), which become
+ *   the trace context of the log record.
+ *
+ * Log records are sent in batches (see {@link getBatchingSink}).  Requests
+ * that fail with network errors or retryable status codes (429, 502, 503,
+ * and 504) are retried with exponential backoff; other failures are reported
+ * to the meta logger, and the batch is dropped.
+ *
+ * The returned sink sends the remaining log records when it is disposed.
+ *
+ * [OpenTelemetry]: https://opentelemetry.io/
+ * @param options The options for the sink.
+ * @returns A sink that exports log records through OTLP/HTTP.
+ * @since 0.11.0
+ */
+export function getOtlpSink(
+  options: OtlpSinkOptions = {},
+): Sink & AsyncDisposable {
+  const endpoint = options.endpoint ?? "http://localhost:4318/v1/logs";
+  const compression = options.compression ?? "gzip";
+  const timeout = options.timeout ?? 10000;
+  const resource = {
+    attributes: toKeyValues({
+      "service.name": options.serviceName ?? "unknown_service",
+      ...options.resourceAttributes,
+    }),
+  };
+  const headers: Record<string, string> = {
+    ...options.headers,
+    "Content-Type": "application/json",
+  };
+  if (compression === "gzip") headers["Content-Encoding"] = "gzip";
+
+  const sink = getBatchingSink(async (records: LogRecord[]) => {
+    const json = JSON.stringify({
+      resourceLogs: [{ resource, scopeLogs: toScopeLogs(records) }],
+    });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    let response: Response;
+    let body: string;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: compression === "gzip" ? await gzip(json) : json,
+        signal: controller.signal,
+      });
+      body = await response.text();
+    } finally {
+      clearTimeout(timer);
+    }
+    if (retryableStatuses.includes(response.status)) {
+      throw new Error(
+        `The OTLP endpoint responded with ${response.status}: ${body}`,
+      );
+    } else if (!response.ok) {
+      metaLogger._log(
+        "error",
+        "The OTLP endpoint rejected a batch of {count} log records with " +
+          "{status}; the batch is dropped.",
+        { count: records.length, status: response.status, body },
+        new Set([sink]),
+      );
+      return;
+    }
+    const rejected = parsePartialSuccess(body);
+    if (rejected != null) {
+      metaLogger._log(
+        "warning",
+        "The OTLP endpoint rejected {rejected} of {count} log records: " +
+          "{errorMessage}",
+        { ...rejected, count: records.length },
+        new Set([sink]),
+      );
+    }
+  }, options);
+  return sink;
+}
+
+/**
+ * Gets the OpenTelemetry severity number of a log level.  The built-in levels
+ * are mapped to the first numbers of the corresponding ranges (e.g., `"info"`
+ * to 9, i.e., `INFO`), and `"fatal"` to 24, i.e., `FATAL4`.  Custom levels are
+ * mapped by their severities in between.
+ * @param level The log level.
+ * @returns The severity number, between 1 and 24.
+ */
+export function getSeverityNumber(level: LogLevel): number {
+  const { severity } = getLogLevelDefinition(level);
+  return Math.min(24, Math.max(1, 1 + Math.floor((severity - 10) * 0.4)));
+}
+
+function toScopeLogs(records: LogRecord[]): unknown[] {
+  const scopes = new Map<string, unknown[]>();
+  for (const record of records) {
+    const name = record.category.join(".");
+    let logRecords = scopes.get(name);
+    if (logRecords == null) {
+      logRecords = [];
+      scopes.set(name, logRecords);
+    }
+    logRecords.push(toOtlpLogRecord(record));
+  }
+  return [...scopes].map(([name, logRecords]) => ({
+    scope: { name },
+    logRecords,
+  }));
+}
+
+function toOtlpLogRecord(record: LogRecord): Record<string, unknown> {
+  const message = record.message.reduce<string>(
+    (msg, part, i) =>
+      msg +
+      (i % 2 === 0
+        ? part
+        : typeof part === "string"
+        ? part
+        : JSON.stringify(toJsonValue(part)) ?? String(part)),
+    "",
+  );
+  const properties: Record<string, unknown> = {};
+  const value = toJsonValue(record.properties);
+  if (value != null && typeof value === "object" && !Array.isArray(value)) {
+    Object.assign(properties, value);
+  }
+  const { trace_id: traceId, span_id: spanId, trace_flags: traceFlags } =
+    properties;
+  const result: Record<string, unknown> = {
+    timeUnixNano: (BigInt(Math.trunc(record.timestamp)) * 1000000n).toString(),
+    severityNumber: getSeverityNumber(record.level),
+    severityText: record.level.toUpperCase(),
+    body: { stringValue: message },
+  };
+  if (typeof traceId === "string" && /^[0-9a-f]{32}$/.test(traceId)) {
+    result.traceId = traceId;
+    if (typeof spanId === "string") result.spanId = spanId;
+    if (typeof traceFlags === "string") result.flags = parseInt(traceFlags, 16);
+    delete properties.trace_id;
+    delete properties.span_id;
+    delete properties.trace_flags;
+  }
+  result.attributes = toKeyValues({
+    ...properties,
+    "logtape.message.template": getTemplate(record.rawMessage),
+  });
+  return result;
+}
+
+function toKeyValues(
+  object: Record<string, unknown>,
+): { key: string; value: unknown }[] {
+  const result: { key: string; value: unknown }[] = [];
+  for (const [key, value] of Object.entries(object)) {
+    if (value === undefined) continue;
+    result.push({ key, value: toAnyValue(value) });
+  }
+  return result;
+}
+
+/**
+ * Converts a JSON-safe value (see {@link toJsonValue}) to an OTLP `AnyValue`.
+ */
+function toAnyValue(value: unknown): Record<string, unknown> {
+  switch (typeof value) {
+    case "string":
+      return { stringValue: value };
+    case "boolean":
+      return { boolValue: value };
+    case "number":
+      return Number.isSafeInteger(value)
+        ? { intValue: value.toString() }
+        : { doubleValue: value };
+  }
+  if (value == null) return {};
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  return {
+    kvlistValue: { values: toKeyValues(value as Record<string, unknown>) },
+  };
+}
+
+function parsePartialSuccess(
+  body: string,
+): { rejected: number; errorMessage: string } | null {
+  try {
+    const partialSuccess = JSON.parse(body)?.partialSuccess;
+    const rejected = Number(partialSuccess?.rejectedLogRecords ?? 0);
+    if (!(rejected > 0)) return null;
+    return { rejected, errorMessage: partialSuccess.errorMessage ?? "" };
+  } catch {
+    // The response body is not necessarily JSON, e.g., empty:
+    return null;
+  }
+}
+
+async function gzip(data: string): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(
+    new CompressionStream("gzip"),
+  );
+  return await new Response(stream).arrayBuffer();
+}
+
+const metaLogger = LoggerImpl.getLogger(metaLoggerCategory);
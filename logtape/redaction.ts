@@ -0,0 +1,455 @@
+import type { PropertiesTransformer } from "./propertiesTransformer.ts";
+import type { LogRecord } from "./record.ts";
+import type { Sink } from "./sink.ts";
+
+/**
+ * How to replace a sensitive value.  This can be one of the following:
+ *
+ * - `"redact"`: Replaces the value with `"[REDACTED]"`.
+ * - `"hash"`: Replaces the value with the first 16 hexadecimal digits of its
+ *   SHA-256 hash, e.g., `"[SHA-256:2cf24dba5fb0a30e]"`, so that the same
+ *   values can be correlated without being revealed.  Note that hashes of
+ *   low-entropy values like passwords can be reversed by brute force.
+ * - `"partial"`: Masks all but the last four characters of the value with
+ *   asterisks, e.g., `"************1111"`.
+ *
+ * Alternatively, this can be a function that accepts a sensitive value as
+ * a string and returns the replacement.
+ * @since 0.11.0
+ */
+export type RedactionStrategy =
+  | "redact"
+  | "hash"
+  | "partial"
+  | ((value: string) => string);
+
+/**
+ * A pattern of sensitive values to scan for in strings.
+ * @since 0.11.0
+ */
+export interface RedactionPattern {
+  /**
+   * The regular expression that matches sensitive values.
+   */
+  readonly pattern: RegExp;
+
+  /**
+   * An optional function to tell if a match is actually sensitive, e.g.,
+   * a checksum validation.  If it returns `false`, the match is kept.
+   * @param match The matched string.
+   * @returns `true` if the match is sensitive.
+   */
+  readonly validate?: (match: string) => boolean;
+
+  /**
+   * The strategy to replace the matches with.  Defaults to
+   * {@link RedactionOptions.replacement}.
+   */
+  readonly replacement?: RedactionStrategy;
+}
+
+/**
+ * A pattern of JSON Web Tokens.
+ * @since 0.11.0
+ */
+export const jwtPattern: RedactionPattern = {
+  pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g,
+};
+
+/**
+ * A pattern of credit card numbers, which consist of 13 to 19 digits
+ * optionally separated by spaces or hyphens, and pass the Luhn check.
+ * @since 0.11.0
+ */
+export const creditCardNumberPattern: RedactionPattern = {
+  pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+  validate: (match) => isLuhnValid(match.replace(/\D/g, "")),
+};
+
+/**
+ * A pattern of email addresses.
+ * @since 0.11.0
+ */
+export const emailAddressPattern: RedactionPattern = {
+  pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+};
+
+/**
+ * The options for redaction.
+ * @since 0.11.0
+ */
+export interface RedactionOptions {
+  /**
+   * The patterns of the property names whose values are sensitive.
+   * Properties matching any of them are redacted at any depth, as a whole.
+   * Strings are compared with the names case-insensitively.
+   *
+   * Defaults to {@link defaultFieldPatterns}.
+   */
+  readonly fieldPatterns?: readonly (string | RegExp)[];
+
+  /**
+   * The patterns of sensitive values to scan for in all strings, including
+   * the message.  Defaults to {@link jwtPattern},
+   * {@link creditCardNumberPattern}, and {@link emailAddressPattern}.
+   */
+  readonly valuePatterns?: readonly RedactionPattern[];
+
+  /**
+   * The strategy to replace sensitive values with.  Defaults to `"redact"`.
+   */
+  readonly replacement?: RedactionStrategy;
+}
+
+/**
+ * The default patterns of sensitive property names, which match names
+ * containing `password`, `passwd`, `token`, `secret`, `apiKey`, `api_key`,
+ * `authorization`, `cookie`, or `credential`, case-insensitively.
+ * @since 0.11.0
+ */
+export const defaultFieldPatterns: readonly RegExp[] = [
+  /password|passwd|token|secret|api[-_]?key|authorization|cookie|credential/i,
+];
+
+/**
+ * A function that redacts sensitive values in a value.
+ * @param value The value to redact.
+ * @returns A redacted copy of the value.  The original value is not modified.
+ * @since 0.11.0
+ */
+export type Redactor = <T>(value: T) => T;
+
+/**
+ * Gets a function that redacts sensitive values in arbitrary values.  It
+ * traverses arrays, plain objects, and errors at any depth, replaces
+ * the values of sensitive properties as a whole, and replaces sensitive
+ * substrings in strings, including the messages and stack traces of errors.
+ * Other objects, e.g., class instances, are kept as they are.
+ * @param options The options for redaction.
+ * @returns The redactor.
+ * @since 0.11.0
+ */
+export function getRedactor(options: RedactionOptions = {}): Redactor {
+  const fieldPatterns = (options.fieldPatterns ?? defaultFieldPatterns).map(
+    (p) =>
+      typeof p === "string"
+        ? (name: string) => name.toLowerCase() === p.toLowerCase()
+        : (name: string) => {
+          p.lastIndex = 0;
+          return p.test(name);
+        },
+  );
+  const replace = getReplacer(options.replacement ?? "redact");
+  const valuePatterns = (options.valuePatterns ??
+    [jwtPattern, creditCardNumberPattern, emailAddressPattern]).map((p) => ({
+      pattern: p.pattern.global
+        ? p.pattern
+        : new RegExp(p.pattern.source, `${p.pattern.flags}g`),
+      validate: p.validate,
+      replace: p.replacement == null ? replace : getReplacer(p.replacement),
+    }));
+  const isSensitiveField = (name: string) =>
+    fieldPatterns.some((test) => test(name));
+
+  const redactString = (value: string): string => {
+    for (const { pattern, validate, replace } of valuePatterns) {
+      value = value.replace(
+        pattern,
+        (match) => validate == null || validate(match) ? replace(match) : match,
+      );
+    }
+    return value;
+  };
+
+  const redact = (value: unknown, copies: Map<object, unknown>): unknown => {
+    if (typeof value === "string") return redactString(value);
+    if (value == null || typeof value !== "object") return value;
+    const copy = copies.get(value);
+    if (copy !== undefined) return copy;
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      copies.set(value, result);
+      for (const item of value) result.push(redact(item, copies));
+      return result;
+    }
+    const proto = Object.getPrototypeOf(value);
+    if (value instanceof Error) {
+      // Errors are copied along with their non-enumerable fields, e.g.,
+      // message, stack, and cause:
+      const result: Record<string, unknown> = Object.create(proto);
+      copies.set(value, result);
+      for (const key of Object.getOwnPropertyNames(value)) {
+        const v = (value as unknown as Record<string, unknown>)[key];
+        Object.defineProperty(result, key, {
+          value: isSensitiveField(key)
+            ? replace(stringify(v))
+            : redact(v, copies),
+          enumerable: Object.prototype.propertyIsEnumerable.call(value, key),
+          writable: true,
+          configurable: true,
+        });
+      }
+      return result;
+    }
+    if (proto !== Object.prototype && proto !== null) return value;
+    const result: Record<string, unknown> = Object.create(proto);
+    copies.set(value, result);
+    for (const [key, v] of Object.entries(value)) {
+      result[key] = isSensitiveField(key)
+        ? replace(stringify(v))
+        : redact(v, copies);
+    }
+    return result;
+  };
+
+  return <T>(value: T) => redact(value, new Map()) as T;
+}
+
+/**
+ * Gets a properties transformer that redacts sensitive values in
+ * the properties.  As properties transformers are applied lazily, i.e., only
+ * when a sink accesses the properties, the properties of filtered-out log
+ * records are never computed.
+ *
+ * Note that properties transformers are not applied to the values of tagged
+ * template literals, e.g., ``logger.info`Hello, ${email}!` ``.  To redact
+ * them as well, use {@link withRedaction} instead.
+ *
+ * @example
+ * ```typescript
+ * await configure({
+ *   // Omitted for brevity
+ *   propTransformers: {
+ *     redaction: getRedactionTransformer(),
+ *   },
+ *   loggers: [
+ *     { category: "my-app", sinks: ["console"], propTransformers: ["redaction"] },
+ *   ],
+ * });
+ * ```
+ * @param options The options for redaction.
+ * @returns The properties transformer.
+ * @since 0.11.0
+ */
+export function getRedactionTransformer<P>(
+  options: RedactionOptions = {},
+): PropertiesTransformer<P> {
+  const redact = getRedactor(options);
+  return ({ properties }) => redact(properties) as P;
+}
+
+/**
+ * Turns a sink into a redacting sink.  The returned sink passes log records
+ * whose message values, raw messages, and properties are redacted to the given
+ * sink.  The redaction is lazy: it takes place only when the sink accesses
+ * the message or the properties.
+ *
+ * @example
+ * ```typescript
+ * const sink = withRedaction(getConsoleSink(), {
+ *   fieldPatterns: [/password|token|secret/i],
+ *   replacement: "partial",
+ * });
+ * ```
+ * @param sink A sink to receive redacted log records.
+ * @param options The options for redaction.
+ * @returns The redacting sink.
+ * @since 0.11.0
+ */
+export function withRedaction(
+  sink: Sink,
+  options: RedactionOptions = {},
+): Sink {
+  const redact = getRedactor(options);
+  return (record: LogRecord) => {
+    sink({
+      category: record.category,
+      level: record.level,
+      timestamp: record.timestamp,
+      get rawMessage() {
+        const raw = record.rawMessage;
+        const value = typeof raw === "string" ? redact(raw) : raw;
+        Object.defineProperty(this, "rawMessage", { value });
+        return value;
+      },
+      get message() {
+        const value = redact(record.message);
+        Object.defineProperty(this, "message", { value });
+        return value;
+      },
+      get properties() {
+        const value = redact(record.properties);
+        Object.defineProperty(this, "properties", { value });
+        return value;
+      },
+    });
+  };
+}
+
+function getReplacer(strategy: RedactionStrategy): (value: string) => string {
+  if (typeof strategy === "function") return strategy;
+  switch (strategy) {
+    case "redact":
+      return () => "[REDACTED]";
+    case "hash":
+      return (value) => `[SHA-256:${sha256(value).slice(0, 16)}]`;
+    case "partial":
+      return (value) =>
+        value.length <= 4
+          ? "*".repeat(value.length)
+          : "*".repeat(value.length - 4) + value.slice(-4);
+  }
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value == null || typeof value !== "object") return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (_e) {
+    return String(value);
+  }
+}
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits.charAt(digits.length - 1 - i));
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const sha256K = new Uint32Array([
+  0x428a2f98,
+  0x71374491,
+  0xb5c0fbcf,
+  0xe9b5dba5,
+  0x3956c25b,
+  0x59f111f1,
+  0x923f82a4,
+  0xab1c5ed5,
+  0xd807aa98,
+  0x12835b01,
+  0x243185be,
+  0x550c7dc3,
+  0x72be5d74,
+  0x80deb1fe,
+  0x9bdc06a7,
+  0xc19bf174,
+  0xe49b69c1,
+  0xefbe4786,
+  0x0fc19dc6,
+  0x240ca1cc,
+  0x2de92c6f,
+  0x4a7484aa,
+  0x5cb0a9dc,
+  0x76f988da,
+  0x983e5152,
+  0xa831c66d,
+  0xb00327c8,
+  0xbf597fc7,
+  0xc6e00bf3,
+  0xd5a79147,
+  0x06ca6351,
+  0x14292967,
+  0x27b70a85,
+  0x2e1b2138,
+  0x4d2c6dfc,
+  0x53380d13,
+  0x650a7354,
+  0x766a0abb,
+  0x81c2c92e,
+  0x92722c85,
+  0xa2bfe8a1,
+  0xa81a664b,
+  0xc24b8b70,
+  0xc76c51a3,
+  0xd192e819,
+  0xd6990624,
+  0xf40e3585,
+  0x106aa070,
+  0x19a4c116,
+  0x1e376c08,
+  0x2748774c,
+  0x34b0bcb5,
+  0x391c0cb3,
+  0x4ed8aa4a,
+  0x5b9cca4f,
+  0x682e6ff3,
+  0x748f82ee,
+  0x78a5636f,
+  0x84c87814,
+  0x8cc70208,
+  0x90befffa,
+  0xa4506ceb,
+  0xbef9a3f7,
+  0xc67178f2,
+]);
+
+/**
+ * Computes the SHA-256 hash of a string synchronously, as the Web Crypto API
+ * only provides an asynchronous one.
+ * @param text The string to hash.  It is encoded in UTF-8.
+ * @returns The hash in hexadecimal.
+ */
+function sha256(text: string): string {
+  const data = new TextEncoder().encode(text);
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(length - 4, data.length * 8);
+  const hash = new Uint32Array([
+    0x6a09e667,
+    0xbb67ae85,
+    0x3c6ef372,
+    0xa54ff53a,
+    0x510e527f,
+    0x9b05688c,
+    0x1f83d9ab,
+    0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + sha256K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+  return Array.from(hash, (x) => x.toString(16).padStart(8, "0")).join("");
+}
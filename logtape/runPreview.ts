@@ -31,6 +31,7 @@ logger.fatal(() => null);
 
 console.log("----------------------------------------");
 
+logger.trace("trace");
 logger.debug("debug");
 logger.info("info");
 logger.warn("warn");
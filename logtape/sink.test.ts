@@ -1,22 +1,99 @@
+import { assert } from "@std/assert/assert";
 import { assertEquals } from "@std/assert/assert-equals";
+import { assertFalse } from "@std/assert/assert-false";
 import { assertThrows } from "@std/assert/assert-throws";
+import { delay } from "@std/async/delay";
 import makeConsoleMock from "consolemock";
 import fs from "node:fs";
 import { isDeno } from "which_runtime";
-import { critical, debug, error, fatal, info, warning } from "./fixtures.ts";
+import {
+  critical,
+  debug,
+  error,
+  fatal,
+  info,
+  trace,
+  warning,
+} from "./fixtures.ts";
+import { configure, reset } from "./config.ts";
 import { defaultTextFormatter, timezoneOffset } from "./formatter.ts";
 import type { LogLevel } from "./level.ts";
 import type { LogRecord } from "./record.ts";
 import {
+  type AsyncFileSinkDriver,
   type FileSinkDriver,
+  fromAsyncSink,
+  getBatchingSink,
   getConsoleSink,
+  getFallbackSink,
+  getFanoutSink,
   getFileSink,
+  getMemorySink,
+  getNonBlockingFileSink,
+  getRoutingSink,
   getStreamSink,
   type Sink,
+  withDeduplication,
   withFilter,
+  withFingersCrossed,
 } from "./sink.ts";
 
-Deno.test("withFilter()", () => {
+Deno.test("fromAsyncSink()", async () => {
+  const buffer: LogRecord[] = [];
+  let pending = 0;
+  const sink = fromAsyncSink(async (record) => {
+    pending++;
+    await delay(5);
+    buffer.push(record);
+    pending--;
+  });
+  sink(debug);
+  sink(info);
+  assertEquals(buffer, []);
+  await delay(1);
+  assertEquals(pending, 1);
+  await sink[Symbol.asyncDispose]();
+  assertEquals(buffer, [debug, info]);
+  assertEquals(pending, 0);
+
+  const metaBuffer: LogRecord[] = [];
+  await configure({
+    sinks: { meta: metaBuffer.push.bind(metaBuffer) },
+    loggers: [
+      { category: ["logtape", "meta"], sinks: ["meta"], level: "warning" },
+    ],
+    reset: true,
+  });
+  const slow: LogRecord[] = [];
+  const boundedSink = fromAsyncSink(async (record) => {
+    await delay(5);
+    slow.push(record);
+  }, { maxPending: 2 });
+  boundedSink(debug);
+  await delay(1);
+  // The first record is being delivered, so only one more can wait:
+  boundedSink(info);
+  boundedSink(warning);
+  boundedSink(error);
+  await boundedSink[Symbol.asyncDispose]();
+  assertEquals(slow, [debug, error]);
+  assertEquals(metaBuffer.length, 1);
+  assertEquals(metaBuffer[0].properties, { count: 2, maxPending: 2 });
+
+  const newest: LogRecord[] = [];
+  const dropNewestSink = fromAsyncSink(async (record) => {
+    await delay(5);
+    newest.push(record);
+  }, { maxPending: 2, overflow: "drop-newest" });
+  dropNewestSink(debug);
+  dropNewestSink(info);
+  dropNewestSink(warning);
+  await dropNewestSink[Symbol.asyncDispose]();
+  assertEquals(newest, [debug, info]);
+  await reset();
+});
+
+Deno.test("withFilter()", async () => {
   const buffer: LogRecord[] = [];
   const sink = withFilter(buffer.push.bind(buffer), "warning");
   sink(debug);
@@ -26,6 +103,12 @@ Deno.test("withFilter()", () => {
   sink(critical);
   sink(fatal);
   assertEquals(buffer, [warning, error, critical, fatal]);
+
+  const disposable = getDisposableSink(buffer);
+  const filtered = withFilter(disposable, "error");
+  assert(Symbol.asyncDispose in filtered);
+  await (filtered as Sink & AsyncDisposable)[Symbol.asyncDispose]();
+  assertEquals(disposable.disposed, 1);
 });
 
 Deno.test("withFilter()", () => {
@@ -40,10 +123,559 @@ Deno.test("withFilter()", () => {
   assertEquals(buffer, [warning, error, critical, fatal]);
 });
 
+Deno.test("withDeduplication()", async (t) => {
+  await t.step("consecutive", async () => {
+    const buffer: LogRecord[] = [];
+    let disposed = false;
+    const inner: Sink & Disposable = (record: LogRecord) => {
+      buffer.push(record);
+    };
+    inner[Symbol.dispose] = () => disposed = true;
+    const sink = withDeduplication(inner);
+    sink(info);
+    sink({ ...info, message: ["Hello, ", 1, " & ", 2, "!"], timestamp: 1 });
+    sink({ ...info, timestamp: info.timestamp + 500 });
+    sink(warning);
+    sink(warning);
+    sink(info);
+    sink(info);
+    assertEquals(buffer.length, 5);
+    assertEquals(buffer[0], info);
+    assertEquals(buffer[1].level, "info");
+    assertEquals(
+      buffer[1].rawMessage,
+      "Repeated {count} times in {duration} ms: {template}",
+    );
+    assertEquals(buffer[1].properties, {
+      count: 2,
+      duration: 500,
+      template: "Hello, {a} & {b}!",
+    });
+    assertEquals(buffer[1].message, [
+      "Repeated ",
+      2,
+      " times in ",
+      500,
+      " ms: ",
+      "Hello, {a} & {b}!",
+      "",
+    ]);
+    assertEquals(buffer[2], warning);
+    assertEquals(buffer[3].level, "warning");
+    assertEquals(
+      buffer[3].rawMessage,
+      "Repeated once in {duration} ms: {template}",
+    );
+    assertEquals(buffer[3].message, [
+      "Repeated once in ",
+      0,
+      " ms: ",
+      "Hello, {a} & {b}!",
+      "",
+    ]);
+    assertEquals(buffer[3].properties, {
+      count: 1,
+      duration: 0,
+      template: "Hello, {a} & {b}!",
+    });
+    assertEquals(buffer[4], info);
+    assertFalse(disposed);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(buffer.length, 6);
+    assertEquals(buffer[5].properties, {
+      count: 1,
+      duration: 0,
+      template: "Hello, {a} & {b}!",
+    });
+    assert(disposed);
+  });
+
+  await t.step("window", async () => {
+    const buffer: LogRecord[] = [];
+    const sink = withDeduplication(buffer.push.bind(buffer), {
+      mode: "window",
+      window: 50,
+    });
+    sink(info);
+    sink(warning);
+    sink(info);
+    sink(warning);
+    sink(info);
+    assertEquals(buffer, [info, warning]);
+    await delay(80);
+    assertEquals(buffer.length, 4);
+    assertEquals(buffer[2].properties, {
+      count: 2,
+      duration: 0,
+      template: "Hello, {a} & {b}!",
+    });
+    assertEquals(buffer[3].level, "warning");
+    sink(info);
+    assertEquals(buffer[4], info);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(buffer.length, 5);
+  });
+
+  await t.step("failing sink", async () => {
+    const metaBuffer: LogRecord[] = [];
+    await configure({
+      sinks: { meta: metaBuffer.push.bind(metaBuffer) },
+      loggers: [
+        { category: ["logtape", "meta"], sinks: ["meta"], level: "fatal" },
+      ],
+      reset: true,
+    });
+    let calls = 0;
+    const sink = withDeduplication(() => {
+      if (++calls > 1) throw new Error("Failed to write.");
+    }, { mode: "window", window: 10 });
+    sink(info);
+    sink(info);
+    // The summary is emitted from a timer, which must not throw:
+    await delay(30);
+    assertEquals(calls, 2);
+    assertEquals(metaBuffer.length, 1);
+    assertEquals(
+      (metaBuffer[0].properties as { record: LogRecord }).record.properties,
+      { count: 1, duration: 0, template: "Hello, {a} & {b}!" },
+    );
+    await sink[Symbol.asyncDispose]();
+    await reset();
+  });
+
+  await t.step("compareProperties", async () => {
+    const buffer: LogRecord[] = [];
+    const sink = withDeduplication(buffer.push.bind(buffer), {
+      compareProperties: true,
+    });
+    const a = { ...info, properties: { a: 1 } };
+    const b = { ...info, properties: { a: 2 } };
+    sink(a);
+    sink(a);
+    sink(b);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(buffer.length, 3);
+    assertEquals(buffer[0], a);
+    assertEquals(buffer[1].properties, {
+      count: 1,
+      duration: 0,
+      template: "Hello, {a} & {b}!",
+    });
+    assertEquals(buffer[2], b);
+  });
+});
+
+Deno.test("withFingersCrossed()", async (t) => {
+  await t.step("global", async () => {
+    const buffer: LogRecord[] = [];
+    const inner = getDisposableSink(buffer);
+    const sink = withFingersCrossed(inner, { bufferSize: 2 });
+    sink(trace);
+    sink(debug);
+    sink(info);
+    assertEquals(buffer, []);
+    sink(error);
+    assertEquals(buffer, [debug, info, error]);
+    sink(warning);
+    assertEquals(buffer, [debug, info, error]);
+    sink(fatal);
+    assertEquals(buffer, [debug, info, error, warning, fatal]);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(inner.disposed, 1);
+  });
+
+  await t.step("passThrough", () => {
+    const buffer: LogRecord[] = [];
+    const sink = withFingersCrossed(buffer.push.bind(buffer), {
+      triggerLevel: "warning",
+      passThrough: true,
+    });
+    sink(debug);
+    sink(warning);
+    sink(info);
+    assertEquals(buffer, [debug, warning, info]);
+  });
+
+  await t.step("category", () => {
+    const buffer: LogRecord[] = [];
+    const sink = withFingersCrossed(buffer.push.bind(buffer), {
+      key: "category",
+    });
+    const otherDebug = { ...debug, category: ["other"] };
+    sink(debug);
+    sink(otherDebug);
+    sink(error);
+    assertEquals(buffer, [debug, error]);
+  });
+
+  await t.step("property", () => {
+    const buffer: LogRecord[] = [];
+    const sink = withFingersCrossed(buffer.push.bind(buffer), {
+      key: { property: "requestId" },
+      maxBuffers: 2,
+    });
+    const record = (base: LogRecord, requestId: number) => ({
+      ...base,
+      properties: { requestId },
+    });
+    sink(record(debug, 1));
+    sink(record(debug, 2));
+    sink(record(info, 1));
+    sink(record(debug, 3)); // Evicts the buffer of the request 2
+    sink(record(error, 2));
+    assertEquals(buffer, [record(error, 2)]);
+    sink(record(error, 1));
+    assertEquals(buffer, [
+      record(error, 2),
+      record(debug, 1),
+      record(info, 1),
+      record(error, 1),
+    ]);
+  });
+});
+
+Deno.test("getBatchingSink()", async (t) => {
+  const metaRecords: LogRecord[] = [];
+  await configure({
+    sinks: { meta: metaRecords.push.bind(metaRecords) },
+    loggers: [
+      { category: ["logtape", "meta"], sinks: ["meta"], level: "warning" },
+    ],
+  });
+
+  await t.step("maxBatchSize", async () => {
+    const batches: LogRecord[][] = [];
+    const sink = getBatchingSink((records) => {
+      batches.push(records);
+    }, { maxBatchSize: 2, maxDelayMs: 60000 });
+    sink(debug);
+    sink(info);
+    sink(warning);
+    await delay(10);
+    assertEquals(batches, [[debug, info]]);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(batches, [[debug, info], [warning]]);
+  });
+
+  await t.step("maxDelayMs", async () => {
+    const batches: LogRecord[][] = [];
+    const sink = getBatchingSink((records) => {
+      batches.push(records);
+    }, { maxDelayMs: 30 });
+    sink(debug);
+    sink(info);
+    assertEquals(batches, []);
+    await delay(60);
+    assertEquals(batches, [[debug, info]]);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(batches, [[debug, info]]);
+  });
+
+  await t.step("overflow", async () => {
+    for (
+      const [overflow, expected] of [
+        ["drop-oldest", [warning, error]],
+        ["drop-newest", [debug, info]],
+        ["block", [debug, info, warning, error]],
+      ] as const
+    ) {
+      metaRecords.length = 0;
+      const batches: LogRecord[][] = [];
+      const sink = getBatchingSink((records) => {
+        batches.push(records);
+      }, { maxQueueSize: 2, maxDelayMs: 60000, overflow });
+      sink(debug);
+      sink(info);
+      sink(warning);
+      sink(error);
+      await sink[Symbol.asyncDispose]();
+      assertEquals(batches.flat(), expected);
+      if (overflow === "block") {
+        assertEquals(metaRecords, []);
+      } else {
+        assertEquals(metaRecords.length, 1);
+        assertEquals(metaRecords[0].level, "warning");
+        assertEquals(metaRecords[0].properties, { count: 2, maxQueueSize: 2 });
+      }
+    }
+  });
+
+  await t.step("retries", async () => {
+    metaRecords.length = 0;
+    let attempts = 0;
+    const batches: LogRecord[][] = [];
+    const sink = getBatchingSink(async (records) => {
+      await delay(1);
+      if (++attempts < 3) throw new Error("Temporary failure");
+      batches.push(records);
+    }, { retryDelayMs: 5 });
+    sink(info);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(attempts, 3);
+    assertEquals(batches, [[info]]);
+    assertEquals(metaRecords, []);
+
+    attempts = 0;
+    const failing = getBatchingSink(() => {
+      attempts++;
+      throw new Error("Permanent failure");
+    }, { maxRetries: 2, retryDelayMs: 5 });
+    failing(info);
+    failing(warning);
+    await failing[Symbol.asyncDispose]();
+    assertEquals(attempts, 3);
+    assertEquals(metaRecords.length, 1);
+    assertEquals(metaRecords[0].level, "fatal");
+    assertEquals(metaRecords[0].properties, {
+      count: 2,
+      attempts: 3,
+      error: new Error("Permanent failure"),
+    });
+  });
+
+  await t.step("dispose", async () => {
+    let disposed = false;
+    const batchSink: ((records: LogRecord[]) => void) & AsyncDisposable =
+      () => {};
+    batchSink[Symbol.asyncDispose] = () => {
+      disposed = true;
+      return Promise.resolve();
+    };
+    const sink = getBatchingSink(batchSink);
+    await sink[Symbol.asyncDispose]();
+    assert(disposed);
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+function getDisposableSink(
+  buffer: LogRecord[],
+): Sink & AsyncDisposable & { disposed: number } {
+  const sink = (record: LogRecord) => {
+    buffer.push(record);
+  };
+  const disposable = Object.assign(sink, {
+    disposed: 0,
+    [Symbol.asyncDispose]: () => {
+      disposable.disposed++;
+      return Promise.resolve();
+    },
+  });
+  return disposable;
+}
+
+Deno.test("getFallbackSink()", async (t) => {
+  const metaRecords: LogRecord[] = [];
+  await configure({
+    sinks: { meta: metaRecords.push.bind(metaRecords) },
+    loggers: [
+      { category: ["logtape", "meta"], sinks: ["meta"], level: "warning" },
+    ],
+  });
+  const failingSink: Sink = () => {
+    throw new Error("Failed.");
+  };
+  const rejectingSink = (_: LogRecord) =>
+    Promise.reject(new Error("Rejected."));
+
+  await t.step("test", async () => {
+    const buffer: LogRecord[] = [];
+    const secondary = getDisposableSink(buffer);
+    const sink = getFallbackSink([failingSink, rejectingSink, secondary]);
+    sink(info);
+    assertEquals(buffer, []);
+    await delay(1);
+    assertEquals(buffer, [info]);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(secondary.disposed, 1);
+    assertEquals(metaRecords, []);
+  });
+
+  await t.step("thenable", async () => {
+    const buffer: LogRecord[] = [];
+    // A custom thenable, which is not an instance of Promise:
+    const thenableSink = (_: LogRecord) => ({
+      then(_: unknown, reject: (error: unknown) => void) {
+        setTimeout(() => reject(new Error("Rejected.")), 5);
+      },
+    });
+    const slowSink = async (record: LogRecord) => {
+      await delay(5);
+      buffer.push(record);
+    };
+    const sink = getFallbackSink([thenableSink, slowSink]);
+    sink(info);
+    // Waits for the delivery to the next sink as well:
+    await sink[Symbol.asyncDispose]();
+    assertEquals(buffer, [info]);
+    assertEquals(metaRecords, []);
+  });
+
+  await t.step("all failed", async () => {
+    const sink = getFallbackSink([failingSink, failingSink]);
+    const error = assertThrows(
+      () => sink(info),
+      AggregateError,
+      "All fallback sinks failed to emit the log record.",
+    );
+    assertEquals(error.errors.length, 2);
+
+    const asyncSink = getFallbackSink([failingSink, rejectingSink]);
+    asyncSink(info);
+    await asyncSink[Symbol.asyncDispose]();
+    assertEquals(metaRecords.length, 1);
+    assertEquals(metaRecords[0].level, "fatal");
+    const props = metaRecords[0].properties as Record<string, unknown>;
+    assertEquals(props.sink, asyncSink);
+    assertEquals(props.record, info);
+    assert(props.error instanceof AggregateError);
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+Deno.test("getFanoutSink()", async (t) => {
+  const metaRecords: LogRecord[] = [];
+  await configure({
+    sinks: { meta: metaRecords.push.bind(metaRecords) },
+    loggers: [
+      { category: ["logtape", "meta"], sinks: ["meta"], level: "warning" },
+    ],
+  });
+
+  await t.step("test", async () => {
+    const a: LogRecord[] = [];
+    const b: LogRecord[] = [];
+    const sinkA = getDisposableSink(a);
+    const sinkB = getDisposableSink(b);
+    const sink = getFanoutSink([
+      sinkA,
+      () => {
+        throw new Error("Failed.");
+      },
+      () => Promise.reject(new Error("Rejected.")),
+      sinkB,
+      sinkA,
+    ]);
+    sink(info);
+    assertEquals(a, [info, info]);
+    assertEquals(b, [info]);
+    await sink[Symbol.asyncDispose]();
+    assertEquals(sinkA.disposed, 1);
+    assertEquals(sinkB.disposed, 1);
+    assertEquals(
+      metaRecords.map((r) =>
+        ((r.properties as Record<string, unknown>).error as Error).message
+      ),
+      ["Failed.", "Rejected."],
+    );
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+Deno.test("getRoutingSink()", async () => {
+  const errors: LogRecord[] = [];
+  const junk: LogRecord[] = [];
+  const flagged: LogRecord[] = [];
+  const others: LogRecord[] = [];
+  const errorSink = getDisposableSink(errors);
+  const routes = [
+    { level: "error", sink: errorSink },
+    { category: "my-app", sink: junk.push.bind(junk) },
+    {
+      filter: (record: LogRecord) =>
+        (record.properties as { flagged?: boolean })?.flagged === true,
+      sink: flagged.push.bind(flagged),
+    },
+  ] as const;
+  const flaggedInfo = {
+    ...info,
+    category: ["other"],
+    properties: { flagged: true },
+  };
+  const otherInfo = { ...info, category: ["other"] };
+
+  const sink = getRoutingSink(routes, {
+    defaultSink: others.push.bind(others),
+  });
+  sink(error);
+  sink(info);
+  sink(flaggedInfo);
+  sink(otherInfo);
+  assertEquals(errors, [error]);
+  assertEquals(junk, [info]);
+  assertEquals(flagged, [flaggedInfo]);
+  assertEquals(others, [otherInfo]);
+  await sink[Symbol.asyncDispose]();
+  assertEquals(errorSink.disposed, 1);
+
+  errors.length = junk.length = 0;
+  const allSink = getRoutingSink(routes, { match: "all" });
+  allSink(error);
+  allSink(debug);
+  assertEquals(errors, [error]);
+  assertEquals(junk, [error, debug]);
+});
+
 interface ConsoleMock extends Console {
   history(): unknown[];
 }
 
+Deno.test("getMemorySink()", () => {
+  const sink = getMemorySink({ capacity: 3 });
+  assertEquals(sink.capacity, 3);
+  assertEquals(sink.size, 0);
+  const first = { ...debug, timestamp: 1000 };
+  const second = { ...info, category: ["other"], timestamp: 2000 };
+  const third = { ...warning, properties: { userId: 123 }, timestamp: 3000 };
+  const fourth = { ...error, properties: { userId: 456 }, timestamp: 4000 };
+  sink(first);
+  sink(second);
+  assertEquals(sink.snapshot(), [first, second]);
+  sink(third);
+  sink(fourth);
+  assertEquals(sink.size, 3);
+  const snapshot = sink.snapshot();
+  assertEquals(snapshot, [second, third, fourth]);
+
+  assertEquals(sink.query(), [second, third, fourth]);
+  assertEquals(sink.query({ level: "warning" }), [third, fourth]);
+  assertEquals(sink.query({ category: "my-app" }), [third, fourth]);
+  assertEquals(sink.query({ category: ["my-app", "junk"] }), [third, fourth]);
+  assertEquals(sink.query({ category: ["my-app", "other"] }), []);
+  assertEquals(sink.query({ since: 3000 }), [third, fourth]);
+  assertEquals(sink.query({ until: 3000 }), [second]);
+  assertEquals(sink.query({ properties: { userId: 123 } }), [third]);
+  assertEquals(
+    sink.query({ level: "info", filter: (r) => r.timestamp % 2000 === 0 }),
+    [second, fourth],
+  );
+
+  sink(first);
+  assertEquals(sink.snapshot(), [third, fourth, first]);
+  assertEquals(snapshot, [second, third, fourth]);
+
+  sink.clear();
+  assertEquals(sink.size, 0);
+  assertEquals(sink.snapshot(), []);
+  sink(first);
+  assertEquals(sink.snapshot(), [first]);
+
+  assertThrows(
+    () => getMemorySink({ capacity: 0 }),
+    RangeError,
+    "The capacity must be a positive integer: 0.",
+  );
+});
+
 Deno.test("getStreamSink()", async () => {
   let buffer: string = "";
   const decoder = new TextDecoder();
@@ -79,6 +711,7 @@ Deno.test("getConsoleSink()", () => {
   // @ts-ignore: consolemock is not typed
   const mock: ConsoleMock = makeConsoleMock();
   const sink = getConsoleSink({ console: mock });
+  sink(trace);
   sink(debug);
   sink(info);
   sink(warning);
@@ -86,6 +719,19 @@ Deno.test("getConsoleSink()", () => {
   sink(critical);
   sink(fatal);
   assertEquals(mock.history(), [
+    {
+      DEBUG: [
+        "%c22:13:20.000 %cTRC%c %cmy-app·junk %cHello, %o & %o!",
+        "color: gray;",
+        "background-color: lightgray; color: black;",
+        "background-color: default;",
+        "color: gray;",
+        "color: default;",
+        123,
+        456,
+        "",
+      ],
+    },
     {
       DEBUG: [
         "%c22:13:20.000 %cDBG%c %cmy-app·junk %cHello, %o & %o!",
@@ -267,3 +913,71 @@ Deno.test("getFileSink()", () => {
 `,
   );
 });
+
+Deno.test("getNonBlockingFileSink()", async () => {
+  const ops: string[] = [];
+  const decoder = new TextDecoder();
+  const driver: AsyncFileSinkDriver<string> = {
+    openSync(path: string) {
+      ops.push(`open ${path}`);
+      return path;
+    },
+    writeSync() {
+      throw new Error("Should not be called.");
+    },
+    flushSync() {
+      throw new Error("Should not be called.");
+    },
+    closeSync() {
+      throw new Error("Should not be called.");
+    },
+    write(fd, chunk) {
+      ops.push(`write ${fd} ${decoder.decode(chunk).split("\n").length - 1}`);
+      return Promise.resolve();
+    },
+    flush(fd) {
+      ops.push(`flush ${fd}`);
+      return Promise.resolve();
+    },
+    close(fd) {
+      ops.push(`close ${fd}`);
+      return Promise.resolve();
+    },
+  };
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const sink = getNonBlockingFileSink("test.log", {
+    ...driver,
+    formatter: (record) => `${record.level}\n`,
+    bufferSize: 15,
+    flushInterval: 0,
+  });
+  assertEquals(ops, ["open test.log"]);
+  sink(debug);
+  sink(info);
+  await tick();
+  assertEquals(ops, ["open test.log"]);
+  sink(warning);
+  await tick();
+  assertEquals(ops, ["open test.log", "write test.log 3"]);
+  sink(debug);
+  sink(error);
+  await tick();
+  assertEquals(ops.slice(2), ["write test.log 2", "flush test.log"]);
+  sink(info);
+  await sink[Symbol.asyncDispose]();
+  assertEquals(ops.slice(4), ["write test.log 1", "close test.log"]);
+
+  ops.splice(0, ops.length);
+  const sink2 = getNonBlockingFileSink("test2.log", {
+    ...driver,
+    syncLevel: null,
+    flushInterval: 10,
+  });
+  sink2(fatal);
+  await tick();
+  assertEquals(ops, ["open test2.log"]);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assertEquals(ops, ["open test2.log", "write test2.log 1"]);
+  await sink2[Symbol.asyncDispose]();
+  assertEquals(ops.slice(2), ["close test2.log"]);
+});
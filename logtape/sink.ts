@@ -1,4 +1,6 @@
-import { type FilterLike, toFilter } from "./filter.ts";
+import { getCategoryList } from "./category.ts";
+import { metaLoggerCategory } from "./constants.ts";
+import { type FilterLike, getLevelFilter, toFilter } from "./filter.ts";
 import {
   type BaseFormatterOptions,
   type ConsoleFormatter,
@@ -6,8 +8,10 @@ import {
   getDefaultConsoleFormatter,
   type TextFormatter,
 } from "./formatter.ts";
-import type { LogLevel } from "./mod.ts";
+import { getLogLevelDefinition, type LogLevel } from "./level.ts";
+import { LoggerImpl } from "./logger/index.ts";
 import type { LogRecord } from "./record.ts";
+import { disposeOnce, getTemplate, isThenable, unrefTimer } from "./utils.ts";
 
 /**
  * A sink is a function that accepts a log record and prints it somewhere.
@@ -20,6 +24,127 @@ import type { LogRecord } from "./record.ts";
  */
 export type Sink<P = unknown> = (record: LogRecord<P>) => void;
 
+/**
+ * An async sink is a function that accepts a log record and returns a promise
+ * that resolves when the log record is delivered somewhere, e.g., to a remote
+ * server.  As {@link Sink}s are called synchronously, an async sink needs to
+ * be turned into a sink by {@link fromAsyncSink}; `configure()` does it for
+ * `async` functions in {@link Config.sinks} automatically.  Other functions
+ * that return promises are called as they are, but `configure()` still waits
+ * for their pending promises when the configuration is reset.
+ *
+ * @param record The log record to sink.
+ * @returns A promise that resolves when the log record is delivered.
+ * @since 0.11.0
+ */
+export type AsyncSink<P = unknown> = (record: LogRecord<P>) => Promise<void>;
+
+/**
+ * Options for the {@link fromAsyncSink} function.
+ * @since 0.11.0
+ */
+export interface AsyncSinkOptions {
+  /**
+   * The maximum number of log records waiting to be delivered, including
+   * the one being delivered.  Defaults to `10000`.
+   */
+  maxPending?: number;
+
+  /**
+   * What to do when there are too many log records waiting to be delivered:
+   *
+   * - `"drop-oldest"`: Drop the oldest log record waiting.
+   * - `"drop-newest"`: Drop the new log record.
+   *
+   * Dropped log records are reported to the meta logger.  Defaults to
+   * `"drop-oldest"`.
+   */
+  overflow?: "drop-oldest" | "drop-newest";
+}
+
+/**
+ * Turns an async sink into a sink.  The returned sink queues log records and
+ * passes them to the async sink one at a time in the background, so that
+ * the caller is not blocked.  Rejections are logged to the meta logger just
+ * like exceptions thrown by sinks.  If the async sink cannot keep up, log
+ * records beyond {@link AsyncSinkOptions.maxPending} are dropped.
+ *
+ * The returned sink waits for all pending log records to be delivered when it
+ * is disposed, and then disposes the async sink as well if it is disposable.
+ *
+ * @example
+ * ```typescript
+ * const sink = fromAsyncSink(async (record) => {
+ *   await fetch("https://example.com/logs", {
+ *     method: "POST",
+ *     body: JSON.stringify(record),
+ *   });
+ * });
+ * ```
+ *
+ * @param asyncSink An async sink to turn into a sink.
+ * @param options The options for the sink.
+ * @returns A sink that delivers log records to the async sink.
+ * @since 0.11.0
+ */
+export function fromAsyncSink(
+  asyncSink: AsyncSink,
+  options: AsyncSinkOptions = {},
+): Sink & AsyncDisposable {
+  const maxPending = options.maxPending ?? 10000;
+  const overflow = options.overflow ?? "drop-oldest";
+  const queue: LogRecord[] = [];
+  let inFlight = 0;
+  let dropped = 0;
+  let draining: Promise<void> | null = null;
+
+  async function drain(): Promise<void> {
+    // Deliver in the background so that the caller is not blocked:
+    await Promise.resolve();
+    while (queue.length > 0) {
+      reportDropped();
+      const record = queue.shift()!;
+      inFlight = 1;
+      try {
+        await asyncSink(record);
+      } catch (error) {
+        reportSinkError(sink, error, record);
+      }
+      inFlight = 0;
+    }
+    reportDropped();
+    draining = null;
+  }
+
+  function reportDropped(): void {
+    if (dropped < 1) return;
+    metaLogger._log(
+      "warning",
+      "Dropped {count} log records because the async sink cannot keep up.",
+      { count: dropped, maxPending },
+      new Set([sink]),
+    );
+    dropped = 0;
+  }
+
+  const sink: Sink & AsyncDisposable = (record: LogRecord) => {
+    if (queue.length + inFlight >= maxPending) {
+      dropped++;
+      // Even if the policy is "drop-oldest", the new record is dropped when
+      // the only pending record is being delivered:
+      if (overflow === "drop-newest" || queue.length < 1) return;
+      queue.shift();
+    }
+    queue.push(record);
+    draining ??= drain();
+  };
+  sink[Symbol.asyncDispose] = async () => {
+    while (draining != null) await draining;
+    await disposeSinks([asyncSink]);
+  };
+  return sink;
+}
+
 /**
  * Turns a sink into a filtered sink.  The returned sink only logs records that
  * pass the filter.
@@ -36,9 +161,553 @@ export type Sink<P = unknown> = (record: LogRecord<P>) => void;
  */
 export function withFilter(sink: Sink, filter: FilterLike): Sink {
   const filterFunc = toFilter(filter);
-  return (record: LogRecord) => {
+  const filteredSink: Sink & Partial<Disposable & AsyncDisposable> = (
+    record: LogRecord,
+  ) => {
     if (filterFunc(record)) sink(record);
   };
+  // Let configure() dispose the inner sink through the filtered sink:
+  if (Symbol.asyncDispose in sink) {
+    filteredSink[Symbol.asyncDispose] = () => disposeSinks([sink]);
+  } else if (Symbol.dispose in sink) {
+    filteredSink[Symbol.dispose] = () => void disposeOnce(sink);
+  }
+  return filteredSink;
+}
+
+/**
+ * A factory that returns a sink that passes log records to the first sink
+ * among the given sinks that succeeds.  If a sink throws an exception or
+ * the promise it returns rejects, the log record is passed to the next sink.
+ * If all sinks fail, the errors are reported to the meta logger as
+ * an `AggregateError`.
+ *
+ * The returned sink disposes the given sinks when it is disposed.
+ *
+ * @example Fall back to the console if the file cannot be written
+ * ```typescript
+ * const sink = getFallbackSink([getFileSink("app.log"), getConsoleSink()]);
+ * ```
+ *
+ * @param sinks The sinks to try in order.
+ * @returns A sink that falls back to the next sink on failure.
+ * @since 0.11.0
+ */
+export function getFallbackSink(
+  sinks: readonly (Sink | AsyncSink)[],
+): Sink & AsyncDisposable {
+  const pending = new Set<Promise<void>>();
+
+  function deliver(record: LogRecord, index: number, errors: unknown[]): void {
+    for (let i = index; i < sinks.length; i++) {
+      try {
+        const result: unknown = sinks[i](record);
+        if (isThenable(result)) {
+          const promise = Promise.resolve(result).then(() => {}, (error) => {
+            errors.push(error);
+            try {
+              deliver(record, i + 1, errors);
+            } catch (error) {
+              reportSinkError(sink, error, record);
+            }
+          });
+          track(pending, promise);
+        }
+        return;
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    throw new AggregateError(
+      errors,
+      "All fallback sinks failed to emit the log record.",
+    );
+  }
+
+  const sink: Sink & AsyncDisposable = (record: LogRecord) => {
+    deliver(record, 0, []);
+  };
+  sink[Symbol.asyncDispose] = async () => {
+    // Falling back to the next sink may add more pending deliveries:
+    while (pending.size > 0) await Promise.all(pending);
+    await disposeSinks(sinks);
+  };
+  return sink;
+}
+
+/**
+ * A factory that returns a sink that passes log records to all the given
+ * sinks.  The failures of the sinks are isolated: if a sink throws
+ * an exception or the promise it returns rejects, the error is reported to
+ * the meta logger, and the other sinks still receive the log record.
+ *
+ * The returned sink disposes the given sinks when it is disposed.
+ *
+ * @example
+ * ```typescript
+ * const sink = getFanoutSink([getConsoleSink(), getFileSink("app.log")]);
+ * ```
+ *
+ * @param sinks The sinks to pass log records to.
+ * @returns A sink that passes log records to all the sinks.
+ * @since 0.11.0
+ */
+export function getFanoutSink(
+  sinks: readonly (Sink | AsyncSink)[],
+): Sink & AsyncDisposable {
+  const pending = new Set<Promise<void>>();
+  const sink: Sink & AsyncDisposable = (record: LogRecord) => {
+    for (const target of sinks) emitTo(target, record, sink, pending);
+  };
+  sink[Symbol.asyncDispose] = async () => {
+    while (pending.size > 0) await Promise.all(pending);
+    await disposeSinks(sinks);
+  };
+  return sink;
+}
+
+/**
+ * A rule for {@link getRoutingSink}.  A log record matches the rule if it
+ * satisfies all the given conditions.
+ * @since 0.11.0
+ */
+export interface RoutingRule {
+  /**
+   * The lowest log level to match.  If omitted, all levels match.
+   */
+  level?: LogLevel;
+
+  /**
+   * The category prefix to match, e.g., `["my-app", "db"]` matches
+   * `["my-app", "db"]` and `["my-app", "db", "query"]`.  If omitted, all
+   * categories match.
+   */
+  category?: string | readonly string[];
+
+  /**
+   * An additional filter to match, e.g., a predicate on the properties.
+   */
+  filter?: FilterLike;
+
+  /**
+   * The sink to pass matching log records to.
+   */
+  sink: Sink | AsyncSink;
+}
+
+/**
+ * Options for the {@link getRoutingSink} function.
+ * @since 0.11.0
+ */
+export interface RoutingSinkOptions {
+  /**
+   * Whether a log record is passed to the sink of the first matching rule
+   * only (`"first"`), or to the sinks of all matching rules (`"all"`).
+   * Defaults to `"first"`.
+   */
+  match?: "first" | "all";
+
+  /**
+   * The sink to pass log records that match no rule to.  If omitted, such
+   * log records are discarded.
+   */
+  defaultSink?: Sink | AsyncSink;
+}
+
+/**
+ * A factory that returns a sink that routes log records to sinks by rules.
+ * Failures of the sinks are isolated and reported to the meta logger, as
+ * {@link getFanoutSink} does.
+ *
+ * The returned sink disposes the sinks of the rules when it is disposed.
+ *
+ * @example Route errors and audit logs to separate sinks
+ * ```typescript
+ * const sink = getRoutingSink([
+ *   { level: "error", sink: alertSink },
+ *   { category: ["my-app", "audit"], sink: auditSink },
+ *   { filter: isSlowQuery, sink: slowQuerySink },
+ * ], { defaultSink: getConsoleSink() });
+ * ```
+ *
+ * @param rules The rules to match log records against, in order.
+ * @param options The options for the sink.
+ * @returns A sink that routes log records to the sinks.
+ * @since 0.11.0
+ */
+export function getRoutingSink(
+  rules: readonly RoutingRule[],
+  options: RoutingSinkOptions = {},
+): Sink & AsyncDisposable {
+  const matchAll = options.match === "all";
+  const routes = rules.map((rule) => {
+    const category = rule.category == null ? null : getCategoryList(
+      rule.category,
+    );
+    const levelFilter = rule.level == null ? null : getLevelFilter(rule.level);
+    const filter = rule.filter == null ? null : toFilter(rule.filter);
+    return {
+      match: (record: LogRecord) =>
+        (category == null || hasCategoryPrefix(record.category, category)) &&
+        (levelFilter == null || levelFilter(record)) &&
+        (filter == null || filter(record)),
+      sink: rule.sink,
+    };
+  });
+  const pending = new Set<Promise<void>>();
+  const sink: Sink & AsyncDisposable = (record: LogRecord) => {
+    let matched = false;
+    for (const route of routes) {
+      if (!route.match(record)) continue;
+      emitTo(route.sink, record, sink, pending);
+      matched = true;
+      if (!matchAll) break;
+    }
+    if (!matched && options.defaultSink != null) {
+      emitTo(options.defaultSink, record, sink, pending);
+    }
+  };
+  sink[Symbol.asyncDispose] = async () => {
+    while (pending.size > 0) await Promise.all(pending);
+    await disposeSinks([
+      ...rules.map((rule) => rule.sink),
+      ...(options.defaultSink == null ? [] : [options.defaultSink]),
+    ]);
+  };
+  return sink;
+}
+
+/**
+ * Passes a log record to a sink, and reports the error to the meta logger if
+ * the sink throws an exception or the promise it returns rejects.
+ * @param target The sink to pass the log record to.
+ * @param record The log record.
+ * @param owner The sink that owns the target sink, which is bypassed when
+ *              reporting the error.
+ * @param pending The set to track the pending promise in.
+ */
+function emitTo(
+  target: Sink | AsyncSink,
+  record: LogRecord,
+  owner: Sink,
+  pending: Set<Promise<void>>,
+): void {
+  try {
+    const result: unknown = target(record);
+    if (isThenable(result)) {
+      track(
+        pending,
+        Promise.resolve(result).then(
+          () => {},
+          (error) => reportSinkError(owner, error, record),
+        ),
+      );
+    }
+  } catch (error) {
+    reportSinkError(owner, error, record);
+  }
+}
+
+/**
+ * Checks if a category starts with the given prefix.
+ */
+function hasCategoryPrefix(
+  category: readonly string[],
+  prefix: readonly string[],
+): boolean {
+  return prefix.every((part, i) => category[i] === part);
+}
+
+/**
+ * Adds a promise to the set until it settles.
+ */
+function track(pending: Set<Promise<void>>, promise: Promise<void>): void {
+  pending.add(promise);
+  promise.finally(() => pending.delete(promise));
+}
+
+/**
+ * Reports an error thrown by a sink to the meta logger.  The given sink is
+ * bypassed to avoid infinite recursion.
+ */
+function reportSinkError(sink: Sink, error: unknown, record: LogRecord): void {
+  metaLogger._log(
+    "fatal",
+    "Failed to emit a log record to sink",
+    { sink, error, record },
+    new Set([sink]),
+  );
+}
+
+/**
+ * Disposes the given sinks if they are disposable.  Each sink is disposed
+ * only once even if it is given more than once, or if it is also disposed
+ * by another sink in the same teardown.
+ * @param sinks The sinks to dispose.
+ */
+async function disposeSinks(sinks: Iterable<unknown>): Promise<void> {
+  await Promise.all([...new Set(sinks)].map(disposeOnce));
+}
+
+/**
+ * Options for the {@link withDeduplication} function.
+ * @since 0.11.0
+ */
+export interface DeduplicationOptions {
+  /**
+   * Which repeated log records to collapse:
+   *
+   * - `"consecutive"`: Only repeated log records in a row are collapsed.
+   *   A different log record ends the repetition.
+   * - `"window"`: Repeated log records within the window are collapsed even
+   *   if other log records come in between.
+   *
+   * Defaults to `"consecutive"`.
+   */
+  mode?: "consecutive" | "window";
+
+  /**
+   * The length of the window in milliseconds, which starts from the first
+   * log record of a repetition.  Defaults to `10000`.
+   */
+  window?: number;
+
+  /**
+   * Whether log records should also have the same properties to be considered
+   * identical.  If turned off, log records that differ only by their values
+   * are collapsed together.  Turned off by default.
+   */
+  compareProperties?: boolean;
+}
+
+/**
+ * Turns a sink into a deduplicating sink.  Identical log records, i.e., ones
+ * with the same category, level, and message template
+ * ({@link LogRecord.rawMessage}), are collapsed: only the first one is passed
+ * to the given sink, and a summary record like "Repeated 57 times in 9875 ms"
+ * follows when the window ends or the returned sink is disposed.
+ *
+ * The returned sink disposes the given sink as well when it is disposed.
+ *
+ * @example Collapse repeated log records in the console
+ * ```typescript
+ * const sink = withDeduplication(getConsoleSink(), { window: 5000 });
+ * ```
+ *
+ * @param sink A sink to receive deduplicated log records.
+ * @param options The options for deduplication.
+ * @returns A deduplicating sink.
+ * @since 0.11.0
+ */
+export function withDeduplication(
+  sink: Sink,
+  options: DeduplicationOptions = {},
+): Sink & AsyncDisposable {
+  const mode = options.mode ?? "consecutive";
+  const window = options.window ?? 10000;
+  const runs = new Map<string, {
+    first: LogRecord;
+    last: LogRecord;
+    count: number;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+
+  function getKey(record: LogRecord): string {
+    const { category, level, rawMessage } = record;
+    const key = [category, level, getTemplate(rawMessage)];
+    if (!options.compareProperties) return JSON.stringify(key);
+    try {
+      return JSON.stringify([...key, record.properties]);
+    } catch (_) {
+      // Unserializable properties are never considered identical:
+      return JSON.stringify([...key, Math.random()]);
+    }
+  }
+
+  function end(key: string): void {
+    const run = runs.get(key);
+    if (run == null) return;
+    runs.delete(key);
+    clearTimeout(run.timer);
+    if (run.count < 1) return;
+    const { first, last, count } = run;
+    const duration = last.timestamp - first.timestamp;
+    const template = getTemplate(first.rawMessage);
+    const summary: LogRecord = {
+      category: first.category,
+      level: first.level,
+      message: count === 1
+        ? ["Repeated once in ", duration, " ms: ", template, ""]
+        : ["Repeated ", count, " times in ", duration, " ms: ", template, ""],
+      rawMessage: count === 1
+        ? "Repeated once in {duration} ms: {template}"
+        : "Repeated {count} times in {duration} ms: {template}",
+      timestamp: Date.now(),
+      properties: { count, duration, template },
+    };
+    // This may be called from a timer, where nobody can catch the error:
+    try {
+      sink(summary);
+    } catch (error) {
+      reportSinkError(sink, error, summary);
+    }
+  }
+
+  const dedupSink: Sink & AsyncDisposable = (record: LogRecord) => {
+    const key = getKey(record);
+    const run = runs.get(key);
+    if (run != null) {
+      run.count++;
+      run.last = record;
+      return;
+    }
+    if (mode === "consecutive") {
+      for (const key of runs.keys()) end(key);
+    }
+    sink(record);
+    const timer = setTimeout(() => end(key), window);
+    unrefTimer(timer);
+    runs.set(key, { first: record, last: record, count: 0, timer });
+  };
+  dedupSink[Symbol.asyncDispose] = async () => {
+    for (const key of runs.keys()) end(key);
+    await disposeSinks([sink]);
+  };
+  return dedupSink;
+}
+
+/**
+ * Options for the {@link withFingersCrossed} function.
+ * @since 0.11.0
+ */
+export interface FingersCrossedOptions {
+  /**
+   * The lowest log level that triggers flushing the buffered log records.
+   * Log records below this level are buffered.  Defaults to `"error"`.
+   */
+  triggerLevel?: LogLevel;
+
+  /**
+   * How to divide log records into separate buffers, so that a trigger
+   * flushes only the related log records:
+   *
+   * - `"category"`: A buffer per category.
+   * - `{ property: "requestId" }`: A buffer per value of the property, e.g.,
+   *   per request.  Log records without the property share a buffer.
+   * - A function that returns the key of the buffer for a log record.
+   *
+   * If omitted, all log records share a single buffer.
+   */
+  key?: "category" | { property: string } | ((record: LogRecord) => unknown);
+
+  /**
+   * The maximum number of log records in a buffer.  When it is exceeded,
+   * the oldest log record in the buffer is discarded.  Defaults to `1000`.
+   */
+  bufferSize?: number;
+
+  /**
+   * The maximum number of buffers.  When it is exceeded, the least recently
+   * used buffer is discarded.  Defaults to `1000`.
+   */
+  maxBuffers?: number;
+
+  /**
+   * Whether log records after a trigger are passed through to the sink
+   * without buffering, for the same buffer key.  If turned off, log records
+   * are buffered again after a trigger.  Turned off by default.
+   */
+  passThrough?: boolean;
+}
+
+/**
+ * Turns a sink into a "fingers crossed" sink, which holds back log records
+ * below the trigger level in a buffer, and passes them to the given sink only
+ * when a log record at or above the trigger level arrives.  Then
+ * the buffered log records are passed first, followed by the triggering log
+ * record.  If nothing goes wrong, the buffered log records are eventually
+ * discarded.
+ *
+ * The returned sink disposes the given sink as well when it is disposed.
+ *
+ * @example Keep debug logs of a request only if it fails
+ * ```typescript
+ * const sink = withFingersCrossed(getConsoleSink(), {
+ *   triggerLevel: "error",
+ *   key: { property: "requestId" },
+ * });
+ * ```
+ *
+ * @param sink A sink to receive log records.
+ * @param options The options for the sink.
+ * @returns A sink that buffers log records until a trigger.
+ * @since 0.11.0
+ */
+export function withFingersCrossed(
+  sink: Sink,
+  options: FingersCrossedOptions = {},
+): Sink & AsyncDisposable {
+  const isTrigger = getLevelFilter(options.triggerLevel ?? "error");
+  const bufferSize = options.bufferSize ?? 1000;
+  const maxBuffers = options.maxBuffers ?? 1000;
+  const key = options.key;
+  const getKey = key == null
+    ? () => null
+    : key === "category"
+    ? (record: LogRecord) => JSON.stringify(record.category)
+    : typeof key === "function"
+    ? key
+    : (record: LogRecord) =>
+      (record.properties as Record<string, unknown> | undefined)?.[
+        key.property
+      ];
+  // Maps buffer keys to buffers in the least recently used order:
+  const buffers = new Map<unknown, {
+    records: LogRecord[];
+    triggered: boolean;
+  }>();
+
+  function getBuffer(bufferKey: unknown) {
+    let buffer = buffers.get(bufferKey);
+    if (buffer == null) {
+      buffer = { records: [], triggered: false };
+      if (buffers.size >= maxBuffers) {
+        buffers.delete(buffers.keys().next().value);
+      }
+    } else {
+      buffers.delete(bufferKey);
+    }
+    buffers.set(bufferKey, buffer);
+    return buffer;
+  }
+
+  const fingersCrossedSink: Sink & AsyncDisposable = (record: LogRecord) => {
+    const bufferKey = getKey(record);
+    if (isTrigger(record)) {
+      const buffer = buffers.get(bufferKey);
+      if (buffer != null) {
+        const records = buffer.records;
+        buffer.records = [];
+        for (const r of records) sink(r);
+      }
+      sink(record);
+      if (options.passThrough) getBuffer(bufferKey).triggered = true;
+      else buffers.delete(bufferKey);
+      return;
+    }
+    const buffer = getBuffer(bufferKey);
+    if (buffer.triggered) {
+      sink(record);
+      return;
+    }
+    buffer.records.push(record);
+    if (buffer.records.length > bufferSize) buffer.records.shift();
+  };
+  fingersCrossedSink[Symbol.asyncDispose] = async () => {
+    buffers.clear();
+    await disposeSinks([sink]);
+  };
+  return fingersCrossedSink;
 }
 
 /**
@@ -65,102 +734,484 @@ export interface StreamSinkOptions {
  *
  * [`stream.Writable.toWeb()`]: https://nodejs.org/api/stream.html#streamwritabletowebstreamwritable
  *
- * @example Sink to the standard error in Deno
- * ```typescript
- * const stderrSink = getStreamSink(Deno.stderr.writable);
- * ```
+ * @example Sink to the standard error in Deno
+ * ```typescript
+ * const stderrSink = getStreamSink(Deno.stderr.writable);
+ * ```
+ *
+ * @example Sink to the standard error in Node.js
+ * ```typescript
+ * import stream from "node:stream";
+ * const stderrSink = getStreamSink(stream.Writable.toWeb(process.stderr));
+ * ```
+ *
+ * @param stream The stream to write to.
+ * @param options The options for the sink.
+ * @returns A sink that writes to the stream.
+ */
+export function getStreamSink(
+  stream: WritableStream,
+  options: StreamSinkOptions = {},
+): Sink & AsyncDisposable {
+  const formatter = options.formatter ?? defaultTextFormatter;
+  const encoder = options.encoder ?? new TextEncoder();
+  const writer = stream.getWriter();
+  let lastPromise = Promise.resolve();
+  const sink: Sink & AsyncDisposable = (record: LogRecord) => {
+    const bytes = encoder.encode(formatter(record));
+    lastPromise = lastPromise
+      .then(() => writer.ready)
+      .then(() => writer.write(bytes));
+  };
+  sink[Symbol.asyncDispose] = async () => {
+    await lastPromise;
+    await writer.close();
+  };
+  return sink;
+}
+
+/**
+ * Options for the {@link getConsoleSink} function.
+ */
+export interface ConsoleSinkOptions extends BaseFormatterOptions {
+  /**
+   * The console formatter or text formatter to use.
+   * Defaults to {@link defaultConsoleFormatter}.
+   */
+  formatter?: ConsoleFormatter | TextFormatter;
+
+  /**
+   * The console to log to.  Defaults to {@link console}.
+   */
+  console?: Console;
+}
+
+/**
+ * A console sink factory that returns a sink that logs to the console.
+ *
+ * @param options The options for the sink.
+ * @returns A sink that logs to the console.
+ */
+export function getConsoleSink(options: ConsoleSinkOptions = {}): Sink {
+  const formatter = options.formatter ?? getDefaultConsoleFormatter(options);
+  const console = options.console ?? globalThis.console;
+  return (record: LogRecord) => {
+    const args = formatter(record);
+    const { consoleMethod: methodName } = getLogLevelDefinition(record.level);
+    const consoleMethod = console[methodName];
+
+    if (typeof args === "string") {
+      const msg = args.replace(/\r?\n$/, "");
+      consoleMethod(msg);
+    } else {
+      consoleMethod(...args);
+    }
+  };
+}
+
+/**
+ * Options for the {@link getMemorySink} function.
+ * @since 0.11.0
+ */
+export interface MemorySinkOptions {
+  /**
+   * The maximum number of log records to keep.  When it is exceeded,
+   * the oldest log record is discarded.  Defaults to `1000`.
+   */
+  capacity?: number;
+}
+
+/**
+ * A query for {@link MemorySink.query}.  A log record matches the query if it
+ * satisfies all the given conditions.
+ * @since 0.11.0
+ */
+export interface MemorySinkQuery {
+  /**
+   * The lowest log level to match.
+   */
+  level?: LogLevel;
+
+  /**
+   * The category prefix to match, e.g., `["my-app", "db"]` matches
+   * `["my-app", "db"]` and `["my-app", "db", "query"]`.
+   */
+  category?: string | readonly string[];
+
+  /**
+   * The earliest timestamp to match, inclusive.
+   */
+  since?: number;
+
+  /**
+   * The latest timestamp to match, exclusive.
+   */
+  until?: number;
+
+  /**
+   * The properties to match.  Each given property should be strictly equal
+   * (`===`) to the property of the log record.
+   */
+  properties?: Record<string, unknown>;
+
+  /**
+   * An additional filter to match.
+   */
+  filter?: FilterLike;
+}
+
+/**
+ * A sink that keeps the last log records in memory.  It is returned by
+ * {@link getMemorySink}.
+ * @since 0.11.0
+ */
+export interface MemorySink extends Sink {
+  /**
+   * The maximum number of log records to keep.
+   */
+  readonly capacity: number;
+
+  /**
+   * The number of log records currently kept.
+   */
+  readonly size: number;
+
+  /**
+   * Gets the kept log records that match the query, from the oldest to
+   * the newest.
+   * @param query The query.  If omitted, all log records are returned.
+   * @returns The matching log records.
+   */
+  query(query?: MemorySinkQuery): LogRecord[];
+
+  /**
+   * Gets all the kept log records, from the oldest to the newest.  Later log
+   * records do not affect the returned array.
+   * @returns The log records.
+   */
+  snapshot(): LogRecord[];
+
+  /**
+   * Discards all the kept log records.
+   */
+  clear(): void;
+}
+
+/**
+ * A sink factory that returns a sink that keeps the last log records in
+ * a ring buffer, which is useful for debugging and testing, e.g., dumping
+ * recent log records from an admin endpoint, or asserting log records in
+ * unit tests.
+ *
+ * @example
+ * ```typescript
+ * const memory = getMemorySink({ capacity: 500 });
+ * await configure({
+ *   sinks: { memory },
+ *   loggers: [{ category: "my-app", sinks: ["memory"] }],
+ * });
+ * // Later:
+ * const errors = memory.query({ level: "error", since: Date.now() - 60_000 });
+ * ```
+ *
+ * @param options The options for the sink.
+ * @returns A sink that keeps the last log records in memory.
+ * @throws {RangeError} If the capacity is not a positive integer.
+ * @since 0.11.0
+ */
+export function getMemorySink(options: MemorySinkOptions = {}): MemorySink {
+  const capacity = options.capacity ?? 1000;
+  if (!(Number.isInteger(capacity) && capacity > 0)) {
+    throw new RangeError(
+      `The capacity must be a positive integer: ${capacity}.`,
+    );
+  }
+  let buffer: LogRecord[] = [];
+  // The index of the oldest log record once the buffer is full:
+  let head = 0;
+
+  function snapshot(): LogRecord[] {
+    return [...buffer.slice(head), ...buffer.slice(0, head)];
+  }
+
+  function query(query: MemorySinkQuery = {}): LogRecord[] {
+    const { since, until, properties } = query;
+    const levelFilter = query.level == null
+      ? null
+      : getLevelFilter(query.level);
+    const category = query.category == null
+      ? null
+      : getCategoryList(query.category);
+    const filter = query.filter == null ? null : toFilter(query.filter);
+    return snapshot().filter((record) =>
+      (levelFilter == null || levelFilter(record)) &&
+      (category == null || hasCategoryPrefix(record.category, category)) &&
+      (since == null || record.timestamp >= since) &&
+      (until == null || record.timestamp < until) &&
+      (properties == null ||
+        Object.entries(properties).every(([k, v]) =>
+          (record.properties as Record<string, unknown> | undefined)?.[k] === v
+        )) &&
+      (filter == null || filter(record))
+    );
+  }
+
+  const sink = (record: LogRecord) => {
+    if (buffer.length < capacity) {
+      buffer.push(record);
+    } else {
+      buffer[head] = record;
+      head = (head + 1) % capacity;
+    }
+  };
+  return Object.defineProperties(sink, {
+    capacity: { value: capacity },
+    size: { get: () => buffer.length },
+    query: { value: query },
+    snapshot: { value: snapshot },
+    clear: {
+      value: () => {
+        buffer = [];
+        head = 0;
+      },
+    },
+  }) as MemorySink;
+}
+
+/**
+ * Options for the {@link getBatchingSink} function.
+ * @since 0.11.0
+ */
+export interface BatchingSinkOptions {
+  /**
+   * The maximum number of log records in a batch.  A batch is sent as soon as
+   * this many log records are queued.  Defaults to `100`.
+   */
+  maxBatchSize?: number;
+
+  /**
+   * The maximum time in milliseconds that a log record waits in the queue
+   * before its batch is sent.  Defaults to `1000`.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * The maximum number of log records in the queue, including ones being
+   * sent or waiting for retries.  Defaults to `10000`.
+   */
+  maxQueueSize?: number;
+
+  /**
+   * What to do when the queue is full:
+   *
+   * - `"drop-oldest"`: Drop the oldest log record in the queue.
+   * - `"drop-newest"`: Drop the new log record.
+   * - `"block"`: Drop nothing, and send a batch right away.  As sinks are
+   *   synchronous, the caller is not blocked; the queue may grow beyond
+   *   {@link maxQueueSize} until the batch sink catches up.
+   *
+   * Dropped log records are reported to the meta logger.  Defaults to
+   * `"drop-oldest"`.
+   */
+  overflow?: "drop-oldest" | "drop-newest" | "block";
+
+  /**
+   * The maximum number of retries when the batch sink fails.  If all retries
+   * fail, the batch is dropped and the failure is reported to the meta logger.
+   * Defaults to `3`.
+   */
+  maxRetries?: number;
+
+  /**
+   * The delay in milliseconds before the first retry.  It doubles for each
+   * subsequent retry.  Defaults to `100`.
+   */
+  retryDelayMs?: number;
+}
+
+/**
+ * A sink factory that returns a sink that queues log records and passes them
+ * in batches to the given batch sink, which is useful for sending log records
+ * over the network or to a database.  A batch is sent when it is full or
+ * when its oldest log record has waited for
+ * {@link BatchingSinkOptions.maxDelayMs}.  Batches are sent one at a time, and
+ * a failed batch is retried with exponential backoff.
+ *
+ * The returned sink sends the remaining log records when it is disposed, and
+ * then disposes the batch sink as well if it is disposable.
  *
- * @example Sink to the standard error in Node.js
+ * @example Send log records to an HTTP endpoint
  * ```typescript
- * import stream from "node:stream";
- * const stderrSink = getStreamSink(stream.Writable.toWeb(process.stderr));
+ * const sink = getBatchingSink(async (records) => {
+ *   const response = await fetch("https://example.com/logs", {
+ *     method: "POST",
+ *     body: JSON.stringify(records),
+ *   });
+ *   if (!response.ok) throw new Error(`HTTP ${response.status}`);
+ * }, { maxBatchSize: 500, maxDelayMs: 5000 });
  * ```
  *
- * @param stream The stream to write to.
+ * @param batchSink A function that takes a batch of log records.  It can
+ *                  return a promise, and should throw or reject on failure.
  * @param options The options for the sink.
- * @returns A sink that writes to the stream.
+ * @returns A sink that sends log records in batches.
+ * @since 0.11.0
  */
-export function getStreamSink(
-  stream: WritableStream,
-  options: StreamSinkOptions = {},
+export function getBatchingSink(
+  batchSink: (records: LogRecord[]) => void | Promise<void>,
+  options: BatchingSinkOptions = {},
 ): Sink & AsyncDisposable {
-  const formatter = options.formatter ?? defaultTextFormatter;
-  const encoder = options.encoder ?? new TextEncoder();
-  const writer = stream.getWriter();
-  let lastPromise = Promise.resolve();
+  const maxBatchSize = options.maxBatchSize ?? 100;
+  const maxDelayMs = options.maxDelayMs ?? 1000;
+  const maxQueueSize = options.maxQueueSize ?? 10000;
+  const overflow = options.overflow ?? "drop-oldest";
+  const maxRetries = options.maxRetries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 100;
+  const queue: LogRecord[] = [];
+  let dropped = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending = false;
+  let inFlight = 0;
+  let disposing = false;
+  let lastPromise: Promise<void> = Promise.resolve();
+
+  function schedule(): void {
+    if (sending) return;
+    if (timer != null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    sending = true;
+    lastPromise = lastPromise.then(drain);
+  }
+
+  async function drain(): Promise<void> {
+    while (queue.length > 0) {
+      reportDropped();
+      const batch = queue.splice(0, maxBatchSize);
+      inFlight = batch.length;
+      await send(batch);
+      inFlight = 0;
+      if (!disposing && queue.length < maxBatchSize) break;
+    }
+    reportDropped();
+    sending = false;
+    if (queue.length > 0 && timer == null) {
+      timer = setTimeout(schedule, maxDelayMs);
+      unrefTimer(timer);
+    }
+  }
+
+  async function send(batch: LogRecord[]): Promise<void> {
+    for (let attempt = 0;; attempt++) {
+      try {
+        await batchSink(batch);
+        return;
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          metaLogger._log(
+            "fatal",
+            "Failed to send a batch of {count} log records after " +
+              "{attempts} attempts; the batch is dropped.",
+            { count: batch.length, attempts: attempt + 1, error },
+            new Set([sink]),
+          );
+          return;
+        }
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelayMs * 2 ** attempt)
+      );
+    }
+  }
+
+  function reportDropped(): void {
+    if (dropped < 1) return;
+    metaLogger._log(
+      "warning",
+      "Dropped {count} log records because the queue is full.",
+      { count: dropped, maxQueueSize },
+      new Set([sink]),
+    );
+    dropped = 0;
+  }
+
   const sink: Sink & AsyncDisposable = (record: LogRecord) => {
-    const bytes = encoder.encode(formatter(record));
-    lastPromise = lastPromise
-      .then(() => writer.ready)
-      .then(() => writer.write(bytes));
+    if (queue.length + inFlight >= maxQueueSize) {
+      if (overflow === "block") {
+        schedule();
+      } else if (overflow === "drop-oldest" && queue.length > 0) {
+        queue.shift();
+        dropped++;
+      } else {
+        // Even if the policy is "drop-oldest", the new record is dropped
+        // when all the queued records are being sent:
+        dropped++;
+        return;
+      }
+    }
+    queue.push(record);
+    if (queue.length >= maxBatchSize) schedule();
+    else if (timer == null && !sending) {
+      timer = setTimeout(schedule, maxDelayMs);
+      unrefTimer(timer);
+    }
   };
   sink[Symbol.asyncDispose] = async () => {
+    disposing = true;
+    schedule();
     await lastPromise;
-    await writer.close();
+    await disposeSinks([batchSink]);
   };
   return sink;
 }
 
 /**
- * Options for the {@link getConsoleSink} function.
+ * Options for the {@link getFileSink} function.
  */
-export interface ConsoleSinkOptions extends BaseFormatterOptions {
+export interface FileSinkOptions extends StreamSinkOptions {
   /**
-   * The console formatter or text formatter to use.
-   * Defaults to {@link defaultConsoleFormatter}.
+   * Whether to write log records in the non-blocking mode.  If `true`,
+   * log records are encoded into an in-memory buffer, which is written to
+   * the file asynchronously when it exceeds the `bufferSize`, every
+   * `flushInterval` milliseconds, or when the sink is disposed.
+   *
+   * Note that a non-blocking sink is an async disposable object instead of
+   * a disposable object, so that it can flush the buffered records before
+   * closing the file.
+   *
+   * `false` by default.
+   * @since 0.11.0
    */
-  formatter?: ConsoleFormatter | TextFormatter;
+  nonBlocking?: boolean;
 
   /**
-   * The console to log to.  Defaults to {@link console}.
+   * The maximum bytes to buffer before writing them to the file in
+   * the non-blocking mode.  8 KiB by default.  Ignored unless `nonBlocking`
+   * is turned on.
+   * @since 0.11.0
    */
-  console?: Console;
-}
-
-const levelToConsoleMethodNameMap = new Map<
-  LogLevel,
-  "debug" | "info" | "warn" | "error"
->([
-  ["debug", "debug"],
-  ["info", "info"],
-  ["warning", "warn"],
-  ["error", "error"],
-  ["critical", "error"],
-  ["fatal", "error"],
-]);
+  bufferSize?: number;
 
-/**
- * A console sink factory that returns a sink that logs to the console.
- *
- * @param options The options for the sink.
- * @returns A sink that logs to the console.
- */
-export function getConsoleSink(options: ConsoleSinkOptions = {}): Sink {
-  const formatter = options.formatter ?? getDefaultConsoleFormatter(options);
-  const console = options.console ?? globalThis.console;
-  return (record: LogRecord) => {
-    const args = formatter(record);
-    const { level } = record;
-    const methodName = levelToConsoleMethodNameMap.get(level);
-    if (!methodName) {
-      throw new TypeError(`Invalid log level: ${level}.`);
-    }
-    const consoleMethod = console[methodName];
+  /**
+   * The interval in milliseconds to write the buffered records to the file
+   * in the non-blocking mode.  1000 ms by default.  `0` disables
+   * the interval-based flushing.  Ignored unless `nonBlocking` is turned on.
+   * @since 0.11.0
+   */
+  flushInterval?: number;
 
-    if (typeof args === "string") {
-      const msg = args.replace(/\r?\n$/, "");
-      consoleMethod(msg);
-    } else {
-      consoleMethod(...args);
-    }
-  };
+  /**
+   * The minimum log level of records that make the buffered records written
+   * and synchronized to the disk (i.e., `fsync`) immediately in
+   * the non-blocking mode, so that crash-relevant records are durable.
+   * If `null`, records never trigger synchronization.  `"error"` by default.
+   * Ignored unless `nonBlocking` is turned on.
+   * @since 0.11.0
+   */
+  syncLevel?: LogLevel | null;
 }
 
-/**
- * Options for the {@link getFileSink} function.
- */
-export type FileSinkOptions = StreamSinkOptions;
-
 /**
  * A platform-specific file sink driver.
  * @typeParam TFile The type of the file descriptor.
@@ -192,6 +1243,33 @@ export interface FileSinkDriver<TFile> {
   closeSync(fd: TFile): void;
 }
 
+/**
+ * A platform-specific file sink driver with asynchronous operations, which
+ * is used in the non-blocking mode.
+ * @typeParam TFile The type of the file descriptor.
+ * @since 0.11.0
+ */
+export interface AsyncFileSinkDriver<TFile> extends FileSinkDriver<TFile> {
+  /**
+   * Write a whole chunk of data to the file.
+   * @param fd The file descriptor.
+   * @param chunk The data to write.
+   */
+  write(fd: TFile, chunk: Uint8Array): Promise<void>;
+
+  /**
+   * Flush the file to ensure that all data is written to the disk.
+   * @param fd The file descriptor.
+   */
+  flush(fd: TFile): Promise<void>;
+
+  /**
+   * Close the file.
+   * @param fd The file descriptor.
+   */
+  close(fd: TFile): Promise<void>;
+}
+
 /**
  * Get a platform-independent file sink.
  *
@@ -216,19 +1294,122 @@ export function getFileSink<TFile>(
   return sink;
 }
 
+/**
+ * Get a platform-independent non-blocking file sink.  See also
+ * {@link FileSinkOptions.nonBlocking}.
+ *
+ * @typeParam TFile The type of the file descriptor.
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
+ */
+export function getNonBlockingFileSink<TFile>(
+  path: string,
+  options: FileSinkOptions & AsyncFileSinkDriver<TFile>,
+): Sink & AsyncDisposable {
+  return getBufferedSink(path, options, null);
+}
+
 /**
  * Options for the {@link getRotatingFileSink} function.
  */
 export interface RotatingFileSinkOptions extends FileSinkOptions {
   /**
-   * The maximum bytes of the file before it is rotated.  1 MiB by default.
+   * The maximum bytes of the file before it is rotated.  1 MiB by default,
+   * unless `interval` is set, in which case the file is not rotated by its
+   * size by default.
    */
   maxSize?: number;
 
   /**
-   * The maximum number of files to keep.  5 by default.
+   * The maximum number of rotated files to keep.  5 by default.
    */
   maxFiles?: number;
+
+  /**
+   * The maximum age of rotated files in milliseconds.  Rotated files whose
+   * last modification time is older than this are deleted on rotation.
+   * No age limit by default.
+   *
+   * Note that this requires the driver to implement
+   * {@link RotatingFileSinkDriver.readdirSync} and
+   * {@link RotatingFileSinkDriver.unlinkSync}.
+   * @since 0.11.0
+   */
+  maxAge?: number;
+
+  /**
+   * The interval to rotate the file regardless of its size.  This can be one
+   * of the following:
+   *
+   * - `"hourly"`: Rotate the file at the beginning of every hour.
+   * - `"daily"`: Rotate the file at the beginning of every day.
+   * - `"weekly"`: Rotate the file at the beginning of every week (Monday).
+   *
+   * Alternatively, this can be a function that accepts a timestamp and returns
+   * the timestamp of the beginning of the period that the given timestamp
+   * belongs to, e.g., `(ts) => ts - ts % (15 * 60 * 1000)` for every
+   * 15 minutes.  The file is rotated when a log record of a new period
+   * arrives.
+   *
+   * It can be combined with `maxSize`.  Note that this requires the driver
+   * to implement {@link RotatingFileSinkDriver.readdirSync} and
+   * {@link RotatingFileSinkDriver.unlinkSync}.
+   * @since 0.11.0
+   */
+  interval?: "hourly" | "daily" | "weekly" | ((timestamp: number) => number);
+
+  /**
+   * Whether to use UTC instead of the local time for the rotation `interval`
+   * and the date placeholders in `filenamePattern`.  `false` by default.
+   * @since 0.11.0
+   */
+  utc?: boolean;
+
+  /**
+   * The pattern of the rotated file names.  It can contain the following
+   * placeholders:
+   *
+   * - `{path}`: The path to the file, e.g., `logs/app.log`.
+   * - `{base}`: The path to the file without its extension, e.g., `logs/app`.
+   * - `{ext}`: The extension of the file with the dot, e.g., `.log`.
+   * - `{date}`: The date of the period of the rotated file, e.g., `2024-10-19`.
+   *   Equivalent to `{YYYY}-{MM}-{DD}`.
+   * - `{YYYY}`, `{MM}`, `{DD}`, `{HH}`, `{mm}`: The year, month, day, hour,
+   *   and minute of the period of the rotated file.
+   * - `{index}`: The sequence number of the rotated file, starting from 1.
+   *
+   * If the pattern has no date placeholders, rotated files are shifted on
+   * every rotation so that the most recent one has the index 1.  Otherwise,
+   * rotated files keep their names, and the index (which is appended to
+   * the name if the pattern has no `{index}`) is only used to avoid collisions
+   * in the same period.
+   *
+   * The default is `"{path}.{index}"` if `interval` is not set, e.g.,
+   * `app.log.1`.  Otherwise, it is `"{base}-{date}{ext}"` for `"daily"` and
+   * `"weekly"`, and `"{base}-{date}-{HH}{mm}{ext}"` for the others, e.g.,
+   * `app-2024-10-19.log`.
+   * @since 0.11.0
+   */
+  filenamePattern?: string;
+
+  /**
+   * The compression format of rotated files.  If specified, rotated files are
+   * compressed in the background using the `CompressionStream` API, and
+   * suffixed with *.gz* (`"gzip"`) or *.deflate* (`"deflate"`), e.g.,
+   * `app.log.1.gz`.  Failures are reported through the meta logger.
+   * Not compressed by default.
+   *
+   * Note that this requires the driver to implement
+   * {@link RotatingFileSinkDriver.readChunks} and
+   * {@link RotatingFileSinkDriver.unlinkSync}.  Dispose the sink
+   * asynchronously to wait for the compression in progress to finish.
+   * @since 0.11.0
+   */
+  compress?: "gzip" | "deflate";
 }
 
 /**
@@ -238,9 +1419,10 @@ export interface RotatingFileSinkDriver<TFile> extends FileSinkDriver<TFile> {
   /**
    * Get the size of the file.
    * @param path A path to the file.
-   * @returns The `size` of the file in bytes, in an object.
+   * @returns The `size` of the file in bytes, in an object.  It also should
+   *          contain the last modification time as `mtime` if available.
    */
-  statSync(path: string): { size: number };
+  statSync(path: string): { size: number; mtime?: Date | null };
 
   /**
    * Rename a file.
@@ -248,62 +1430,593 @@ export interface RotatingFileSinkDriver<TFile> extends FileSinkDriver<TFile> {
    * @param newPath A path to be renamed to.
    */
   renameSync(oldPath: string, newPath: string): void;
+
+  /**
+   * List the names of the entries in a directory.  This is required for
+   * the `interval` and `maxAge` options.
+   * @param path A path to the directory.
+   * @returns The names of the entries, not the paths.
+   * @since 0.11.0
+   */
+  readdirSync?(path: string): string[];
+
+  /**
+   * Delete a file.  This is required for the `interval` and `maxAge` options.
+   * @param path A path to the file to delete.
+   * @since 0.11.0
+   */
+  unlinkSync?(path: string): void;
+
+  /**
+   * Read a file chunk by chunk asynchronously.  This is required for
+   * the `compress` option.
+   * @param path A path to the file to read.
+   * @returns The chunks of the file.
+   * @since 0.11.0
+   */
+  readChunks?(path: string): AsyncIterable<Uint8Array>;
+}
+
+/**
+ * A platform-specific rotating file sink driver with asynchronous operations,
+ * which is used in the non-blocking mode.
+ * @typeParam TFile The type of the file descriptor.
+ * @since 0.11.0
+ */
+export interface AsyncRotatingFileSinkDriver<TFile>
+  extends AsyncFileSinkDriver<TFile>, RotatingFileSinkDriver<TFile> {
 }
 
 /**
  * Get a platform-independent rotating file sink.
  *
  * This sink writes log records to a file, and rotates the file when it reaches
- * the `maxSize`.  The rotated files are named with the original file name
- * followed by a dot and a number, starting from 1.  The number is incremented
- * for each rotation, and the maximum number of files to keep is `maxFiles`.
+ * the `maxSize`, or when the `interval` has passed.  By default, the rotated
+ * files are named with the original file name followed by a dot and a number,
+ * starting from 1.  The number is incremented for each rotation, and
+ * the maximum number of files to keep is `maxFiles`.  The names of
+ * the rotated files can be customized with the `filenamePattern`.
  *
  * @param path A path to the file to write to.
  * @param options The options for the sink and the file driver.
  * @returns A sink that writes to the file.  The sink is also a disposable
- *          object that closes the file when disposed.
+ *          object that closes the file when disposed, and an async disposable
+ *          object that also waits for the compression of rotated files.
  */
 export function getRotatingFileSink<TFile>(
   path: string,
   options: RotatingFileSinkOptions & RotatingFileSinkDriver<TFile>,
-): Sink & Disposable {
+): Sink & Disposable & AsyncDisposable {
   const formatter = options.formatter ?? defaultTextFormatter;
   const encoder = options.encoder ?? new TextEncoder();
-  const maxSize = options.maxSize ?? 1024 * 1024;
+  const rotator = getRotator(path, options, () => sink);
+  let fd = options.openSync(path);
+  let closed = false;
+  const sink: Sink & Disposable & AsyncDisposable = (record: LogRecord) => {
+    const bytes = encoder.encode(formatter(record));
+    const rollover = rotator.checkRollover(bytes, record.timestamp);
+    if (rollover != null) {
+      options.closeSync(fd);
+      try {
+        rollover();
+      } finally {
+        // Reopen the file even if the rollover fails, so that the sink keeps
+        // working:
+        fd = options.openSync(path);
+      }
+    }
+    options.writeSync(fd, bytes);
+    options.flushSync(fd);
+    rotator.written(bytes);
+  };
+  sink[Symbol.dispose] = () => {
+    if (closed) return;
+    closed = true;
+    options.closeSync(fd);
+  };
+  sink[Symbol.asyncDispose] = async () => {
+    sink[Symbol.dispose]();
+    await rotator.idle();
+  };
+  return sink;
+}
+
+/**
+ * Get a platform-independent non-blocking rotating file sink.  See also
+ * {@link FileSinkOptions.nonBlocking}.
+ *
+ * @typeParam TFile The type of the file descriptor.
+ * @param path A path to the file to write to.
+ * @param options The options for the sink and the file driver.
+ * @returns A sink that writes to the file.  The sink is also an async
+ *          disposable object that flushes the buffered records and closes
+ *          the file when disposed.
+ * @since 0.11.0
+ */
+export function getNonBlockingRotatingFileSink<TFile>(
+  path: string,
+  options: RotatingFileSinkOptions & AsyncRotatingFileSinkDriver<TFile>,
+): Sink & AsyncDisposable {
+  const sink: Sink & AsyncDisposable = getBufferedSink(
+    path,
+    options,
+    getRotator(path, options, (): Sink => sink),
+  );
+  return sink;
+}
+
+/**
+ * Keeps track of the size and the period of a rotating file and rotates it
+ * when needed.
+ */
+interface Rotator {
+  /**
+   * Check if the file should be rotated before writing the given bytes.
+   * If so, the tracked state is reset for the new file.
+   * @param bytes The bytes to write.
+   * @param timestamp The timestamp of the log record to write.
+   * @returns A function that rotates the files if the file should be rotated,
+   *          or `null` otherwise.  The file must be closed before calling
+   *          the returned function.
+   */
+  checkRollover(bytes: Uint8Array, timestamp: number): (() => void) | null;
+
+  /**
+   * Record that the given bytes have been written to the file.
+   * @param bytes The bytes written.
+   */
+  written(bytes: Uint8Array): void;
+
+  /**
+   * Wait for the background compression of rotated files to finish.
+   * @returns A promise that resolves when no compression is in progress.
+   */
+  idle(): Promise<void>;
+}
+
+const compressionExtensions: Record<"gzip" | "deflate", string> = {
+  gzip: ".gz",
+  deflate: ".deflate",
+};
+
+const rotationIntervals: Record<
+  "hourly" | "daily" | "weekly",
+  (date: Date, utc: boolean) => number
+> = {
+  hourly: (date, utc) =>
+    utc
+      ? Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        date.getUTCHours(),
+      )
+      : new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+      ).getTime(),
+  daily: (date, utc) =>
+    utc
+      ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+      : new Date(date.getFullYear(), date.getMonth(), date.getDate())
+        .getTime(),
+  weekly: (date, utc) =>
+    utc
+      ? Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate() - (date.getUTCDay() + 6) % 7,
+      )
+      : new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() - (date.getDay() + 6) % 7,
+      ).getTime(),
+};
+
+const datePlaceholderPattern = /\{(date|YYYY|MM|DD|HH|mm)\}/;
+
+function getRotator<TFile>(
+  path: string,
+  options: RotatingFileSinkOptions & RotatingFileSinkDriver<TFile>,
+  getSink: () => Sink,
+): Rotator {
+  const { interval, maxAge, compress, utc = false } = options;
+  const maxSize = options.maxSize ??
+    (interval == null ? 1024 * 1024 : Infinity);
   const maxFiles = options.maxFiles ?? 5;
+  const getPeriod = interval == null
+    ? null
+    : typeof interval === "function"
+    ? interval
+    : (ts: number) => rotationIntervals[interval](new Date(ts), utc);
+  let pattern = options.filenamePattern ??
+    (interval == null
+      ? "{path}.{index}"
+      : interval === "daily" || interval === "weekly"
+      ? "{base}-{date}{ext}"
+      : "{base}-{date}-{HH}{mm}{ext}");
+  const shifting = !datePlaceholderPattern.test(pattern);
+  const optionalIndex = !pattern.includes("{index}");
+  if (optionalIndex) pattern += "{.index}";
+  const { readdirSync, unlinkSync, readChunks } = options;
+  if (
+    (!shifting || maxAge != null) &&
+    (readdirSync == null || unlinkSync == null)
+  ) {
+    throw new TypeError(
+      "The file driver does not support readdirSync() and unlinkSync(), " +
+        "which are required for date-based file names and maxAge.",
+    );
+  }
+  if (compress != null && (readChunks == null || unlinkSync == null)) {
+    throw new TypeError(
+      "The file driver does not support readChunks() and unlinkSync(), " +
+        "which are required for compress.",
+    );
+  }
+  const compressedExt = compress == null ? "" : compressionExtensions[compress];
+  const sepIndex = Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\"));
+  const extIndex = path.lastIndexOf(".");
+  const base = extIndex > sepIndex + 1 ? path.slice(0, extIndex) : path;
+  const ext = extIndex > sepIndex + 1 ? path.slice(extIndex) : "";
+
+  function pad(n: number, length = 2): string {
+    return n.toString().padStart(length, "0");
+  }
+
+  function renderFilename(period: number | null, index: number): string {
+    const date = new Date(period ?? 0);
+    const fields: Record<string, string> = {
+      YYYY: pad(utc ? date.getUTCFullYear() : date.getFullYear(), 4),
+      MM: pad((utc ? date.getUTCMonth() : date.getMonth()) + 1),
+      DD: pad(utc ? date.getUTCDate() : date.getDate()),
+      HH: pad(utc ? date.getUTCHours() : date.getHours()),
+      mm: pad(utc ? date.getUTCMinutes() : date.getMinutes()),
+    };
+    fields.date = `${fields.YYYY}-${fields.MM}-${fields.DD}`;
+    return pattern.replace(/\{(\.?)(\w+)\}/g, (placeholder, dot, name) => {
+      if (name === "index") {
+        return index < 1 ? "" : `${dot}${index}`;
+      }
+      if (name === "path") return path;
+      if (name === "base") return base;
+      if (name === "ext") return ext;
+      return fields[name] ?? placeholder;
+    });
+  }
+
+  function exists(path: string): boolean {
+    try {
+      options.statSync(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Rotated files being compressed; their paths are updated when shifted,
+  // and set to null when they are pushed out by the shifting:
+  const compressions = new Map<{ path: string | null }, Promise<void>>();
+
+  function shift(): string {
+    for (const job of compressions.keys()) {
+      if (job.path === renderFilename(null, maxFiles)) job.path = null;
+    }
+    for (let i = maxFiles - 1; i > 0; i--) {
+      const from = renderFilename(null, i);
+      const to = renderFilename(null, i + 1);
+      for (const suffix of compressedExt === "" ? [""] : [compressedExt, ""]) {
+        try {
+          options.renameSync(from + suffix, to + suffix);
+        } catch (_) {
+          // Continue if the file does not exist.
+        }
+      }
+      for (const job of compressions.keys()) {
+        if (job.path === from) job.path = to;
+      }
+    }
+    const rotatedPath = renderFilename(null, 1);
+    options.renameSync(path, rotatedPath);
+    return rotatedPath;
+  }
+
+  function archive(period: number | null): string {
+    let index = optionalIndex ? 0 : 1;
+    while (
+      exists(renderFilename(period, index)) ||
+      compressedExt !== "" &&
+        exists(renderFilename(period, index) + compressedExt)
+    ) index++;
+    const rotatedPath = renderFilename(period, index);
+    options.renameSync(path, rotatedPath);
+    return rotatedPath;
+  }
+
+  async function compressFile(
+    source: string,
+    destination: string,
+  ): Promise<void> {
+    const compression = new CompressionStream(compress!);
+    const writer = compression.writable.getWriter();
+    const read = async () => {
+      try {
+        for await (const chunk of readChunks!(source)) {
+          // Copy the chunk as CompressionStream does not accept shared buffers:
+          await writer.write(new Uint8Array(chunk));
+        }
+        await writer.close();
+      } catch (error) {
+        await writer.abort(error).catch(() => {});
+        throw error;
+      }
+    };
+    // The asynchronous operations of the driver are used if available, e.g.,
+    // in the non-blocking mode:
+    const driver = options as Partial<AsyncFileSinkDriver<TFile>>;
+    const write = async () => {
+      const reader = compression.readable.getReader();
+      try {
+        // The driver opens files in the append mode, so a stale compressed
+        // file, e.g., of a rotated file pushed out, has to be removed first:
+        try {
+          unlinkSync!(destination);
+        } catch {
+          // Continue if the compressed file does not exist.
+        }
+        const fd = options.openSync(destination);
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (driver.write == null) options.writeSync(fd, value);
+            else await driver.write(fd, value);
+          }
+          if (driver.flush == null) options.flushSync(fd);
+          else await driver.flush(fd);
+        } finally {
+          if (driver.close == null) options.closeSync(fd);
+          else await driver.close(fd);
+        }
+      } catch (error) {
+        // Stop reading the source file as well:
+        await reader.cancel(error).catch(() => {});
+        throw error;
+      }
+    };
+    await Promise.all([read(), write()]);
+  }
+
+  function startCompression(rotatedPath: string): void {
+    const job: { path: string | null } = { path: rotatedPath };
+    // The compressed file is renamed along with the rotated file if
+    // the rotated file is shifted in the meantime:
+    const promise = compressFile(rotatedPath, rotatedPath + compressedExt)
+      .then(() => {
+        // The file may have been pushed out or deleted in the meantime:
+        if (job.path == null || !exists(job.path)) return;
+        unlinkSync!(job.path);
+      }, (error) => {
+        if (job.path != null) {
+          try {
+            unlinkSync!(job.path + compressedExt);
+          } catch {
+            // Continue if the partial compressed file does not exist.
+          }
+        }
+        metaLogger._log(
+          "fatal",
+          "Failed to compress the rotated log file {path}",
+          { path: job.path ?? rotatedPath, error },
+          new Set([getSink()]),
+        );
+      }).finally(() => compressions.delete(job));
+    compressions.set(job, promise);
+  }
+
+  function cleanUp(): void {
+    // Rotated files are looked up in the directory of the most recent one:
+    const sample = renderFilename(0, 1);
+    const dirIndex = Math.max(
+      sample.lastIndexOf("/"),
+      sample.lastIndexOf("\\"),
+    );
+    const dir = dirIndex < 0 ? "." : sample.slice(0, dirIndex + 1);
+    const filenamePattern = pattern.slice(
+      Math.max(pattern.lastIndexOf("/"), pattern.lastIndexOf("\\")) + 1,
+    );
+    const filenameRegExp = new RegExp(
+      "^" +
+        filenamePattern
+          .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+          .replace(/\\\{(\\\.)?(\w+)\\\}/g, (_, dot, name) => {
+            if (name === "index") return `(?:${dot ?? ""}\\d+)?`;
+            if (name === "path" || name === "base" || name === "ext") {
+              const value = name === "path"
+                ? path
+                : name === "base"
+                ? base
+                : ext;
+              const filename = value.slice(
+                Math.max(value.lastIndexOf("/"), value.lastIndexOf("\\")) + 1,
+              );
+              return filename.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            }
+            return name === "date" ? "\\d+-\\d+-\\d+" : "\\d+";
+          }) +
+        (compressedExt === ""
+          ? ""
+          : `(?:${compressedExt.replace(".", "\\.")})?`) +
+        "$",
+    );
+    // A rotated file being compressed is counted once, by its compressed
+    // file:
+    const compressing = new Set<string | null>(
+      [...compressions.keys()].map((job) => job.path),
+    );
+    const files: { path: string; mtime: number }[] = [];
+    for (const name of readdirSync!(dirIndex < 0 ? "." : dir)) {
+      if (!filenameRegExp.test(name)) continue;
+      const filePath = dirIndex < 0 ? name : `${dir}${name}`;
+      if (filePath === path || compressing.has(filePath)) continue;
+      try {
+        const mtime = options.statSync(filePath).mtime?.getTime() ?? 0;
+        files.push({ path: filePath, mtime });
+      } catch {
+        // Skip if the file has gone.
+      }
+    }
+    files.sort((a, b) =>
+      b.mtime - a.mtime || (a.path < b.path ? 1 : a.path > b.path ? -1 : 0)
+    );
+    const now = Date.now();
+    files.forEach((file, i) => {
+      if (
+        (!shifting && i >= maxFiles) ||
+        (maxAge != null && now - file.mtime > maxAge)
+      ) {
+        unlinkSync!(file.path);
+      }
+    });
+  }
+
   let offset: number = 0;
+  let period: number | null = null;
   try {
     const stat = options.statSync(path);
     offset = stat.size;
+    if (getPeriod != null && stat.mtime != null) {
+      period = getPeriod(stat.mtime.getTime());
+    }
   } catch {
     // Continue as the offset is already 0.
   }
-  let fd = options.openSync(path);
-  function shouldRollover(bytes: Uint8Array): boolean {
-    return offset + bytes.length > maxSize;
-  }
-  function performRollover(): void {
-    options.closeSync(fd);
-    for (let i = maxFiles - 1; i > 0; i--) {
-      const oldPath = `${path}.${i}`;
-      const newPath = `${path}.${i + 1}`;
-      try {
-        options.renameSync(oldPath, newPath);
-      } catch (_) {
-        // Continue if the file does not exist.
+  return {
+    checkRollover(bytes, timestamp) {
+      const recordPeriod = getPeriod?.(timestamp) ?? null;
+      if (period == null) period = recordPeriod;
+      const rotatedPeriod = period;
+      if (recordPeriod != null && period != null && recordPeriod > period) {
+        period = recordPeriod;
+      } else if (offset + bytes.length <= maxSize) {
+        return null;
       }
-    }
-    options.renameSync(path, `${path}.1`);
-    offset = 0;
-    fd = options.openSync(path);
+      offset = 0;
+      return () => {
+        const rotatedPath = shifting ? shift() : archive(rotatedPeriod);
+        if (!shifting || maxAge != null) cleanUp();
+        if (compress != null) startCompression(rotatedPath);
+      };
+    },
+    written(bytes) {
+      offset += bytes.length;
+    },
+    async idle() {
+      while (compressions.size > 0) {
+        await Promise.all(compressions.values());
+      }
+    },
+  };
+}
+
+function getBufferedSink<TFile>(
+  path: string,
+  options: FileSinkOptions & AsyncFileSinkDriver<TFile>,
+  rotator: Rotator | null,
+): Sink & AsyncDisposable {
+  const formatter = options.formatter ?? defaultTextFormatter;
+  const encoder = options.encoder ?? new TextEncoder();
+  const bufferSize = options.bufferSize ?? 1024 * 8;
+  const flushInterval = options.flushInterval ?? 1000;
+  const syncFilter = options.syncLevel === null
+    ? null
+    : getLevelFilter(options.syncLevel ?? "error");
+  // It is null while the file is closed for a rollover:
+  let fd: TFile | null = options.openSync(path);
+  let chunks: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let lastPromise: Promise<void> = Promise.resolve();
+
+  function enqueue(task: () => Promise<void>): void {
+    lastPromise = lastPromise.then(task).catch((error) => {
+      metaLogger._log(
+        "fatal",
+        "Failed to write log records to the file {path}",
+        { path, error },
+        new Set([sink]),
+      );
+    });
   }
-  const sink: Sink & Disposable = (record: LogRecord) => {
+
+  function flush(sync: boolean): void {
+    if (chunks.length < 1 && !sync) return;
+    const data = concatChunks(chunks, bufferedBytes);
+    chunks = [];
+    bufferedBytes = 0;
+    enqueue(async () => {
+      // The file is not reopened yet if the last rollover failed to:
+      fd ??= options.openSync(path);
+      if (data.length > 0) await options.write(fd, data);
+      if (sync) await options.flush(fd);
+    });
+  }
+
+  const sink: Sink & AsyncDisposable = (record: LogRecord) => {
     const bytes = encoder.encode(formatter(record));
-    if (shouldRollover(bytes)) performRollover();
-    options.writeSync(fd, bytes);
-    options.flushSync(fd);
-    offset += bytes.length;
+    const rollover = rotator?.checkRollover(bytes, record.timestamp);
+    if (rollover != null) {
+      flush(false);
+      enqueue(async () => {
+        const current = fd;
+        fd = null;
+        if (current != null) await options.close(current);
+        try {
+          rollover();
+        } finally {
+          fd = options.openSync(path);
+        }
+      });
+    }
+    chunks.push(bytes);
+    bufferedBytes += bytes.length;
+    rotator?.written(bytes);
+    if (syncFilter?.(record)) flush(true);
+    else if (bufferedBytes >= bufferSize) flush(false);
+  };
+
+  const timer = flushInterval > 0
+    ? setInterval(() => flush(false), flushInterval)
+    : null;
+  if (timer != null) unrefTimer(timer);
+
+  sink[Symbol.asyncDispose] = async () => {
+    if (timer != null) clearInterval(timer);
+    flush(false);
+    enqueue(async () => {
+      if (fd != null) await options.close(fd);
+      fd = null;
+    });
+    await lastPromise;
+    await rotator?.idle();
   };
-  sink[Symbol.dispose] = () => options.closeSync(fd);
   return sink;
 }
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * The meta logger.  It is a logger with the category `["logtape", "meta"]`.
+ */
+const metaLogger = LoggerImpl.getLogger(metaLoggerCategory);
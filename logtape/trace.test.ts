@@ -0,0 +1,186 @@
+import { assertEquals } from "@std/assert/assert-equals";
+import { assertMatch } from "@std/assert/assert-match";
+import { assertNotEquals } from "@std/assert/assert-not-equals";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { configure, reset } from "./config.ts";
+import { withContext } from "./context.ts";
+import { getLogger } from "./logger/index.ts";
+import type { LogRecord } from "./record.ts";
+import {
+  formatTraceparent,
+  generateTraceparent,
+  parseTraceparent,
+  type TraceContext,
+  withTraceparent,
+} from "./trace.ts";
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+const spanId = "00f067aa0ba902b7";
+const traceparent = `00-${traceId}-${spanId}-01`;
+
+Deno.test("parseTraceparent()", () => {
+  assertEquals(parseTraceparent(traceparent), {
+    traceId,
+    spanId,
+    traceFlags: 1,
+  });
+  assertEquals(parseTraceparent(` 00-${traceId.toUpperCase()}-${spanId}-00 `), {
+    traceId,
+    spanId,
+    traceFlags: 0,
+  });
+  // Future versions may have more fields:
+  assertEquals(parseTraceparent(`01-${traceId}-${spanId}-03-foo`), {
+    traceId,
+    spanId,
+    traceFlags: 3,
+  });
+  assertEquals(parseTraceparent(`00-${traceId}-${spanId}-01-foo`), null);
+  assertEquals(parseTraceparent(`ff-${traceId}-${spanId}-01`), null);
+  assertEquals(parseTraceparent(`00-${"0".repeat(32)}-${spanId}-01`), null);
+  assertEquals(parseTraceparent(`00-${traceId}-${"0".repeat(16)}-01`), null);
+  assertEquals(parseTraceparent(`00-${traceId}-${spanId}`), null);
+  assertEquals(parseTraceparent("foo"), null);
+});
+
+Deno.test("formatTraceparent()", () => {
+  assertEquals(
+    formatTraceparent({ traceId, spanId, traceFlags: 1 }),
+    traceparent,
+  );
+  assertEquals(
+    formatTraceparent({ traceId, spanId, traceFlags: 0 }),
+    `00-${traceId}-${spanId}-00`,
+  );
+});
+
+Deno.test("generateTraceparent()", () => {
+  const generated = generateTraceparent();
+  assertMatch(generated, /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+  assertNotEquals(parseTraceparent(generated), null);
+  assertNotEquals(generateTraceparent(), generated);
+
+  const child = parseTraceparent(
+    generateTraceparent({ traceId, spanId, traceFlags: 0 }),
+  );
+  assertEquals(child?.traceId, traceId);
+  assertNotEquals(child?.spanId, spanId);
+  assertEquals(child?.traceFlags, 0);
+});
+
+Deno.test("withTraceparent()", async (t) => {
+  const buffer: LogRecord[] = [];
+
+  await t.step("set up", async () => {
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+      },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"], level: "debug" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+      contextLocalStorage: new AsyncLocalStorage(),
+      reset: true,
+    });
+  });
+
+  await t.step("test", () => {
+    const logger = getLogger("my-app");
+    const rv = withTraceparent(traceparent, () => {
+      logger.info("hello", { foo: 1 });
+      withContext({ bar: 2 }, () => {
+        logger.info`hello`;
+        logger.info((l) => l`hello`);
+      });
+      return 123;
+    });
+    assertEquals(rv, 123);
+    const trace = { trace_id: traceId, span_id: spanId, trace_flags: "01" };
+    assertEquals(buffer.map((r) => r.properties), [
+      { foo: 1, ...trace },
+      { bar: 2, ...trace },
+      { bar: 2, ...trace },
+    ]);
+    buffer.splice(0, buffer.length);
+
+    withTraceparent("invalid", () => logger.info("hello"));
+    withTraceparent(null, () => logger.info("hello"));
+    logger.info("hello");
+    assertEquals(buffer.map((r) => r.properties), [
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    buffer.splice(0, buffer.length);
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
+
+Deno.test("configure() [traceContext]", async (t) => {
+  const buffer: LogRecord[] = [];
+  let spanContext: TraceContext | Error | undefined;
+
+  await t.step("set up", async () => {
+    await configure({
+      sinks: {
+        buffer: buffer.push.bind(buffer),
+      },
+      loggers: [
+        { category: "my-app", sinks: ["buffer"], level: "debug" },
+        { category: ["logtape", "meta"], sinks: [], level: "warning" },
+      ],
+      contextLocalStorage: new AsyncLocalStorage(),
+      traceContext: {
+        getSpanContext: () => {
+          if (spanContext instanceof Error) throw spanContext;
+          return spanContext;
+        },
+      },
+      reset: true,
+    });
+  });
+
+  await t.step("test", () => {
+    const logger = getLogger("my-app");
+    logger.info("hello");
+    spanContext = { traceId, spanId, traceFlags: 1 };
+    logger.info("hello", { foo: 1 });
+    // The span context takes precedence over the traceparent:
+    withTraceparent(`00-${"1".repeat(32)}-${"1".repeat(16)}-00`, () => {
+      logger.info("hello");
+      // An invalid span context, e.g., of a non-recording span, is ignored:
+      spanContext = {
+        traceId: "0".repeat(32),
+        spanId: "0".repeat(16),
+        traceFlags: 0,
+      };
+      logger.info("hello");
+      // A failing getter falls back to the traceparent as well:
+      spanContext = new Error("Oops");
+      logger.info("hello");
+    });
+    assertEquals(buffer.map((r) => r.properties), [
+      undefined,
+      { foo: 1, trace_id: traceId, span_id: spanId, trace_flags: "01" },
+      { trace_id: traceId, span_id: spanId, trace_flags: "01" },
+      {
+        trace_id: "1".repeat(32),
+        span_id: "1".repeat(16),
+        trace_flags: "00",
+      },
+      {
+        trace_id: "1".repeat(32),
+        span_id: "1".repeat(16),
+        trace_flags: "00",
+      },
+    ]);
+  });
+
+  await t.step("tear down", async () => {
+    await reset();
+  });
+});
@@ -0,0 +1,166 @@
+import { traceContextSymbol } from "./constants.ts";
+import { withContext } from "./context.ts";
+import { generateId } from "./utils.ts";
+
+/**
+ * A trace context, which identifies the trace and the span that a log record
+ * belongs to.  It is structurally compatible with `SpanContext` of
+ * [OpenTelemetry], so the span context of an OpenTelemetry span can be used
+ * as it is.
+ *
+ * [OpenTelemetry]: https://opentelemetry.io/
+ * @since 0.11.0
+ */
+export interface TraceContext {
+  /**
+   * The trace ID, which is 32 lowercase hexadecimal digits.
+   */
+  readonly traceId: string;
+
+  /**
+   * The span ID, which is 16 lowercase hexadecimal digits.
+   */
+  readonly spanId: string;
+
+  /**
+   * The trace flags, e.g., `1` if the trace is sampled.
+   */
+  readonly traceFlags: number;
+}
+
+/**
+ * Options for the trace context enrichment.  See {@link Config.traceContext}.
+ * @since 0.11.0
+ */
+export interface TraceContextOptions {
+  /**
+   * A function that returns the trace context of the current span, if any.
+   * It takes precedence over the trace context set by {@link withTraceparent}.
+   * For OpenTelemetry, pass a function like:
+   *
+   * ```typescript
+   * import { trace } from "@opentelemetry/api";
+   * const getSpanContext = () => trace.getActiveSpan()?.spanContext();
+   * ```
+   */
+  getSpanContext?: () => TraceContext | undefined;
+}
+
+const traceparentPattern =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parses a [W3C Trace Context] `traceparent` header.
+ *
+ * [W3C Trace Context]: https://www.w3.org/TR/trace-context/
+ * @param traceparent The value of the `traceparent` header, e.g.,
+ *                    `"00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"`.
+ * @returns The parsed trace context, or `null` if the header is invalid.
+ * @since 0.11.0
+ */
+export function parseTraceparent(traceparent: string): TraceContext | null {
+  const match = traceparentPattern.exec(traceparent.trim().toLowerCase());
+  if (match == null) return null;
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid, and version 00 has no more fields:
+  if (version === "ff" || (version === "00" && rest != null)) return null;
+  if (!isValidTraceContext({ traceId, spanId, traceFlags: 0 })) return null;
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Formats a trace context as a [W3C Trace Context] `traceparent` header.
+ *
+ * [W3C Trace Context]: https://www.w3.org/TR/trace-context/
+ * @param context The trace context.
+ * @returns The value of the `traceparent` header.
+ * @since 0.11.0
+ */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Generates a [W3C Trace Context] `traceparent` header for a new span, e.g.,
+ * to propagate the trace to an outgoing request.  If a parent trace context
+ * is given, the new span belongs to the same trace with the same flags;
+ * otherwise, a new sampled trace is started.
+ *
+ * [W3C Trace Context]: https://www.w3.org/TR/trace-context/
+ * @param parent The trace context of the parent span, if any.
+ * @returns The value of the `traceparent` header.
+ * @since 0.11.0
+ */
+export function generateTraceparent(parent?: TraceContext): string {
+  return formatTraceparent({
+    traceId: parent?.traceId ?? generateId(16),
+    spanId: generateId(8),
+    traceFlags: parent?.traceFlags ?? 1,
+  });
+}
+
+/**
+ * Runs a callback with the trace context of a `traceparent` header in
+ * the implicit context, e.g., of an incoming request.  Every log record
+ * emitted within the callback has the `trace_id`, `span_id`, and
+ * `trace_flags` properties.  If the header is invalid, the callback is run
+ * without the trace context.
+ *
+ * Note that the `contextLocalStorage` option must be set in the configuration
+ * to use this function, as with {@link withContext}.
+ *
+ * @example
+ * ```typescript
+ * const traceparent = request.headers.get("traceparent");
+ * await withTraceparent(traceparent, () => handle(request));
+ * ```
+ *
+ * @typeParam T The return type of the callback.
+ * @param traceparent The value of the `traceparent` header, or a trace
+ *                    context.
+ * @param callback The callback to run.
+ * @returns The return value of the callback.
+ * @since 0.11.0
+ */
+export function withTraceparent<T>(
+  traceparent: string | TraceContext | null | undefined,
+  callback: () => T,
+): T {
+  const context = typeof traceparent === "string"
+    ? parseTraceparent(traceparent)
+    : traceparent;
+  if (context == null) return callback();
+  return withContext({ [traceContextSymbol]: context }, callback);
+}
+
+/**
+ * Checks if a trace context is valid, i.e., its IDs are not all zeros.
+ * OpenTelemetry uses such IDs for the absence of a span.
+ * @param context The trace context.
+ * @returns `true` if the trace context is valid.
+ */
+export function isValidTraceContext(
+  context: TraceContext | null | undefined,
+): context is TraceContext {
+  return context != null &&
+    /^[0-9a-f]{32}$/.test(context.traceId) &&
+    /[1-9a-f]/.test(context.traceId) &&
+    /^[0-9a-f]{16}$/.test(context.spanId) && /[1-9a-f]/.test(context.spanId);
+}
+
+/**
+ * Turns a trace context into the properties of a log record, whose names
+ * follow the OpenTelemetry specification for non-OTLP log formats.
+ * @param context The trace context.
+ * @returns The properties.
+ */
+export function getTraceContextProperties(
+  context: TraceContext,
+): Record<string, unknown> {
+  return {
+    trace_id: context.traceId,
+    span_id: context.spanId,
+    trace_flags: (context.traceFlags & 0xff).toString(16).padStart(2, "0"),
+  };
+}
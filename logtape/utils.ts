@@ -11,3 +11,151 @@ export function getFunction<T>(
   // @ts-ignore
   return typeof value === "function" ? value : () => value;
 }
+
+/**
+ * Make a timer not keep the process alive, if the runtime supports it.
+ * @param timer The timer returned by `setTimeout()` or `setInterval()`.
+ */
+export function unrefTimer(timer: ReturnType<typeof setTimeout>): void {
+  if (
+    typeof timer === "object" && timer != null && "unref" in timer &&
+    typeof timer.unref === "function"
+  ) {
+    timer.unref();
+    return;
+  }
+  const { Deno } = globalThis as {
+    Deno?: { unrefTimer?(id: unknown): void };
+  };
+  if (typeof Deno?.unrefTimer === "function") Deno.unrefTimer(timer);
+}
+
+/**
+ * Checks if a value is a promise-like object, e.g., the return value of
+ * an async sink.  Unlike `instanceof Promise`, it also recognizes promises
+ * from other realms and custom thenables.
+ * @param value The value to check.
+ * @returns `true` if the value is promise-like.
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return value != null && typeof value === "object" &&
+    "then" in value && typeof value.then === "function";
+}
+
+/**
+ * Read an environment variable in Deno, Node.js, and Bun.  It never throws
+ * nor prompts for permissions; if the environment variable is not accessible,
+ * e.g., in browsers or in Deno without the `--allow-env` flag, it returns
+ * `undefined`.
+ * @param name The name of the environment variable.
+ * @returns The value of the environment variable, or `undefined` if it is not
+ *          set or not accessible.
+ */
+export function getEnvironmentVariable(name: string): string | undefined {
+  try {
+    const { Deno, process } = globalThis as {
+      Deno?: {
+        permissions?: {
+          querySync?(
+            descriptor: { name: "env"; variable: string },
+          ): { state: string };
+        };
+        env: { get(key: string): string | undefined };
+      };
+      process?: { env?: Record<string, unknown> };
+    };
+    if (Deno != null) {
+      const status = Deno.permissions?.querySync?.({
+        name: "env",
+        variable: name,
+      });
+      if (status != null && status.state !== "granted") return undefined;
+      return Deno.env.get(name);
+    }
+    const value = process?.env?.[name];
+    return typeof value === "string" ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the message template of a log record as a string.  Placeholders of
+ * a tagged template are represented as `{}`.
+ * @param rawMessage The raw message of a log record.
+ * @returns The message template.
+ */
+export function getTemplate(rawMessage: string | TemplateStringsArray): string {
+  return typeof rawMessage === "string" ? rawMessage : rawMessage.join("{}");
+}
+
+/**
+ * Generate a random ID in lowercase hexadecimal.
+ * @param bytes The number of random bytes.  The ID has twice as many digits.
+ * @returns The random ID.
+ */
+export function generateId(bytes: number): string {
+  const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buffer, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The disposals made in the current teardown, if any.  A `null` value means
+ * the disposable is still in use and must not be disposed.
+ */
+let teardownDisposals: Map<object, Promise<void> | null> | null = null;
+
+/**
+ * Dispose of a disposable object, if it is disposable.  Within a teardown
+ * (see {@link teardown}), each object is disposed at most once, so that
+ * a sink shared by several wrapping sinks is not disposed twice.
+ * @param disposable The object to dispose.
+ * @returns A promise that resolves when the object is disposed.
+ */
+export function disposeOnce(disposable: unknown): Promise<void> {
+  if (
+    disposable == null ||
+    (typeof disposable !== "object" && typeof disposable !== "function")
+  ) {
+    return Promise.resolve();
+  }
+  if (teardownDisposals?.has(disposable)) {
+    return teardownDisposals.get(disposable) ?? Promise.resolve();
+  }
+  let promise: Promise<void>;
+  if (Symbol.asyncDispose in disposable) {
+    promise = Promise.resolve(
+      (disposable as AsyncDisposable)[Symbol.asyncDispose](),
+    );
+  } else if (Symbol.dispose in disposable) {
+    (disposable as Disposable)[Symbol.dispose]();
+    promise = Promise.resolve();
+  } else {
+    return Promise.resolve();
+  }
+  teardownDisposals?.set(disposable, promise);
+  return promise;
+}
+
+/**
+ * Dispose of the given disposables in a teardown, in which each object,
+ * including the ones that the given disposables dispose in turn, is disposed
+ * at most once.
+ * @param disposables The objects to dispose.
+ * @param inUse The objects that are still in use, which are not disposed even
+ *              if any of the given disposables tries to dispose them.
+ * @returns A promise that resolves when all the objects are disposed.
+ */
+export async function teardown(
+  disposables: Iterable<object>,
+  inUse: Iterable<object> = [],
+): Promise<void> {
+  const previous = teardownDisposals;
+  teardownDisposals = new Map(previous ?? []);
+  for (const object of inUse) teardownDisposals.set(object, null);
+  try {
+    await Promise.all([...new Set(disposables)].map(disposeOnce));
+  } finally {
+    teardownDisposals = previous;
+  }
+}